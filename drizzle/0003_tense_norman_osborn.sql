@@ -0,0 +1,8 @@
+CREATE TABLE "user_settings" (
+	"user_id" integer NOT NULL,
+	"key" text NOT NULL,
+	"value" text,
+	CONSTRAINT "user_settings_user_id_key_pk" PRIMARY KEY("user_id","key")
+);
+--> statement-breakpoint
+ALTER TABLE "user_settings" ADD CONSTRAINT "user_settings_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;
\ No newline at end of file
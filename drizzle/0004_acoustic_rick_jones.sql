@@ -0,0 +1,7 @@
+CREATE TABLE "audit_log" (
+	"action" text NOT NULL,
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE VIEW "public"."post_stats" AS (select "posts"."id", "posts"."title", "posts"."user_id", count("comments"."id")::int as "comment_count" from "posts" left join "comments" on "comments"."post_id" = "posts"."id" group by "posts"."id");--> statement-breakpoint
+CREATE MATERIALIZED VIEW "public"."user_post_counts" AS (select "users"."id", "users"."full_name", count("posts"."id")::int as "post_count" from "users" left join "posts" on "posts"."user_id" = "users"."id" group by "users"."id");
\ No newline at end of file
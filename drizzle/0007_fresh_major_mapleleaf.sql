@@ -0,0 +1 @@
+ALTER TABLE "post_tags" ADD CONSTRAINT "post_tags_post_id_tag_id_unique" UNIQUE("post_id","tag_id");
\ No newline at end of file
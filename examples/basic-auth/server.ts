@@ -79,6 +79,8 @@ const apiRouter = createDrizzleRestAdapter({
     schema: { users, posts },
     tableOptions: {
         users: {
+            // Password hashes are never selected, returned or accepted from clients
+            columns: { password: { hidden: true } },
             hooks: {
                 beforeOperation: async (context) => {
                     const { user } = context.req as AuthenticatedRequest;
@@ -94,40 +96,20 @@ const apiRouter = createDrizzleRestAdapter({
                     }
 
                     // Users can only update their own profile
-                    if (operation === 'UPDATE' && user.role !== 'admin' && user.id !== parseInt(recordId as string)) {
+                    if (operation === 'UPDATE' && user.role !== 'admin' && user.id !== recordId) {
                         throw new Error('Forbidden: Can only update own profile');
                     }
 
                     // Users can only view their own profile (non-admins)
-                    if (operation === 'GET_ONE' && user.role !== 'admin' && user.id !== parseInt(recordId as string)) {
+                    if (operation === 'GET_ONE' && user.role !== 'admin' && user.id !== recordId) {
                         throw new Error('Forbidden: Can only view own profile');
                     }
-                },
-                afterOperation: async (context, result) => {
-                    const { user } = context.req as AuthenticatedRequest;
-
-                    if (!user) {
-                        return result;
-                    }
-
-                    // Filter sensitive data for non-admin users
-                    if (user.role !== 'admin') {
-                        if (Array.isArray(result)) {
-                            return result.map((record: any) => {
-                                const { password, ...safeRecord } = record;
-                                return safeRecord;
-                            });
-                        } else {
-                            const { password, ...safeRecord } = result;
-                            return safeRecord;
-                        }
-                    }
-
-                    return result;
                 }
             }
         },
         posts: {
+            // Set by the hook below; clients cannot choose them
+            columns: { authorId: { readOnly: true }, createdAt: { readOnly: true } },
             hooks: {
                 beforeOperation: async (context) => {
                     const { user } = context.req as AuthenticatedRequest;
@@ -145,7 +127,7 @@ const apiRouter = createDrizzleRestAdapter({
 
                     // Only author or admin can modify posts
                     if (operation === 'UPDATE' || operation === 'DELETE') {
-                        const existingPost = await db.select().from(posts).where(eq(posts.id, parseInt(context.recordId as string)));
+                        const existingPost = await db.select().from(posts).where(eq(posts.id, context.recordId as number));
 
                         if (existingPost.length > 0) {
                             const post = existingPost[0];
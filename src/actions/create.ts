@@ -1,8 +1,10 @@
-import { createInsertSchema } from 'drizzle-zod';
 import { Request, Response } from 'express';
 
+import { createWriteSchema, omitUnreadable } from '../utils/column-rules';
 import { ErrorHandler } from '../utils/error-handler';
 import { createHookContext, OperationType } from '../utils/hook-context';
+import { QueryBuilder } from '../utils/query-builder';
+import { QueryParser } from '../utils/query-parser';
 import { ActionContext, ActionHandler } from './types';
 
 export const createAction: ActionHandler = async (
@@ -15,8 +17,13 @@ export const createAction: ActionHandler = async (
         table,
         tableMetadata,
         primaryKeyColumn,
+        primaryKey,
         columns,
+        schema,
+        tablesMetadataMap,
         tableConfig,
+        maxEmbedDepth,
+        parentScope,
         logger
     } = context;
 
@@ -30,8 +37,24 @@ export const createAction: ActionHandler = async (
             bodyKeys: Object.keys(req.body || {})
         }, 'Processing CREATE request');
 
-        const insertSchema = createInsertSchema(table);
-        const validatedBody = insertSchema.parse(req.body);
+        // Reject an invalid _embed before inserting
+        const { embed, scoped } = QueryParser.parseItemParams(req);
+        const queryBuilder = new QueryBuilder(db, table, columns, schema, tablesMetadataMap, tableMetadata.name, {
+            maxEmbedDepth,
+            logger
+        });
+        queryBuilder.validateEmbeds(embed);
+
+        // Nested routes always create the record under the parent from the URL
+        const body = parentScope ? { ...req.body, [parentScope.column]: parentScope.value } : req.body;
+
+        const insertSchema = createWriteSchema(table, tableMetadata);
+        const validatedBody: Record<string, unknown> = insertSchema.parse(body);
+
+        // The parent applies even when the foreign key is read-only for clients
+        if (parentScope) {
+            validatedBody[parentScope.column] = parentScope.value;
+        }
 
         logger.debug({
             requestId,
@@ -66,7 +89,9 @@ export const createAction: ActionHandler = async (
         }
 
         const result = await db.insert(table).values(validatedBody).returning();
-        let createdRecord = (result as any[])[0];
+        // Hidden foreign keys are still needed to embed, so they are removed afterwards
+        let [createdRecord] = (await queryBuilder.applyEmbeds(result as any[], embed, scoped))
+            .map(record => omitUnreadable(record, tableMetadata));
 
         // Execute afterOperation hook
         if (tableConfig?.hooks?.afterOperation) {
@@ -89,7 +114,7 @@ export const createAction: ActionHandler = async (
         logger.info({
             requestId,
             table: tableMetadata.name,
-            recordId: createdRecord[primaryKeyColumn],
+            recordId: primaryKey.fromRecord(createdRecord),
             duration
         }, 'CREATE request completed successfully');
 
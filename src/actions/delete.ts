@@ -1,10 +1,28 @@
-import { eq } from 'drizzle-orm';
+import { inArray, or, SQL } from 'drizzle-orm';
 import { Request, Response } from 'express';
 
-import { ErrorHandler } from '../utils/error-handler';
+import { ErrorHandler, QueryValidationError, QueryValidationIssue } from '../utils/error-handler';
 import { createHookContext, OperationType } from '../utils/hook-context';
+import { QueryParser } from '../utils/query-parser';
+import { RelationMetadata, resolveParentKey } from '../utils/schema-inspector';
+import { resolveRecordId } from './record-id';
 import { ActionContext, ActionHandler } from './types';
 
+/** A `has_many` relation removed by `_dependent`, with the dependents of its own rows */
+interface DependentNode {
+    relation: RelationMetadata;
+    context: ActionContext;
+    children: DependentNode[];
+}
+
+/** Raised when a child table's beforeOperation hook rejects a dependent delete */
+class DependentHookError extends Error {
+    constructor(public readonly table: string, public readonly hookError: unknown) {
+        super(`beforeOperation hook rejected a dependent delete in '${table}'`);
+        this.name = 'DependentHookError';
+    }
+}
+
 export const deleteAction: ActionHandler = async (
     req: Request,
     res: Response,
@@ -15,6 +33,7 @@ export const deleteAction: ActionHandler = async (
         table,
         tableMetadata,
         primaryKeyColumn,
+        primaryKey,
         columns,
         tableConfig,
         logger
@@ -24,12 +43,16 @@ export const deleteAction: ActionHandler = async (
     const startTime = Date.now();
 
     try {
-        const { id } = req.params;
+        const id = req.params.id ?? req.params.value;
+        const recordId = await resolveRecordId(req, context);
+        const { dependent } = QueryParser.parseItemParams(req);
+        const dependentTree = dependent ? buildDependentTree(context, dependent) : [];
 
         logger.debug({
             requestId,
             table: tableMetadata.name,
-            id
+            id,
+            dependent
         }, 'Processing DELETE request');
 
         // Execute beforeOperation hook
@@ -40,7 +63,7 @@ export const deleteAction: ActionHandler = async (
             tableMetadata,
             primaryKeyColumn,
             columns,
-            { recordId: id }
+            { recordId }
         );
 
         if (tableConfig?.hooks?.beforeOperation) {
@@ -59,8 +82,20 @@ export const deleteAction: ActionHandler = async (
             }
         }
 
+        if (recordId === undefined) {
+            logger.info({
+                requestId,
+                table: tableMetadata.name,
+                id,
+                duration: Date.now() - startTime
+            }, 'DELETE request - lookup value not found');
+
+            ErrorHandler.handleNotFound(res, undefined, requestId);
+            return;
+        }
+
         // First check if the record exists using dynamic primary key
-        const existingRecord = await db.select().from(table).where(eq(columns[primaryKeyColumn], id));
+        const existingRecord = await db.select().from(table).where(primaryKey.where(recordId));
         if (existingRecord.length === 0) {
             const duration = Date.now() - startTime;
 
@@ -75,9 +110,18 @@ export const deleteAction: ActionHandler = async (
             return;
         }
 
-        await db.delete(table).where(eq(columns[primaryKeyColumn], id));
+        // Dependents go first so that no foreign key is left pointing at a deleted row
+        const deleted = await db.transaction(async (tx) => {
+            const counts: Record<string, number> = { [tableMetadata.resourceName]: 0 };
+
+            await deleteDependents(tx, req, res, context, existingRecord, dependentTree, counts);
+            await tx.delete(table).where(primaryKey.where(recordId));
+            counts[tableMetadata.resourceName] += 1;
+
+            return counts;
+        });
 
-        const result = { deleted: true };
+        const result = dependentTree.length > 0 ? { deleted } : { deleted: true };
 
         // Execute afterOperation hook
         if (tableConfig?.hooks?.afterOperation) {
@@ -102,12 +146,32 @@ export const deleteAction: ActionHandler = async (
             requestId,
             table: tableMetadata.name,
             id,
+            deleted,
             duration
         }, 'DELETE request completed successfully');
 
+        if (dependentTree.length > 0) {
+            res.status(200).json(result);
+            return;
+        }
+
         res.status(204).send();
     } catch (error: any) {
         const duration = Date.now() - startTime;
+
+        if (error instanceof DependentHookError) {
+            logger.error({
+                requestId,
+                table: tableMetadata.name,
+                dependentTable: error.table,
+                duration,
+                error: error.hookError
+            }, 'DELETE request failed in dependent beforeOperation hook');
+
+            ErrorHandler.handleError(res, error.hookError, 'beforeOperation', requestId);
+            return;
+        }
+
         logger.error({
             requestId,
             table: tableMetadata.name,
@@ -119,3 +183,113 @@ export const deleteAction: ActionHandler = async (
         ErrorHandler.handleError(res, error, 'deleteOne', requestId);
     }
 };
+
+/**
+ * Merges `_dependent` paths such as `comments` and `posts.comments` into a tree of relations.
+ * Every segment must be a `has_many` relation of a table whose DELETE endpoint is enabled.
+ */
+const buildDependentTree = (context: ActionContext, paths: string[]): DependentNode[] => {
+    const roots: DependentNode[] = [];
+    const issues: QueryValidationIssue[] = [];
+
+    for (const path of paths) {
+        const segments = path.split('.');
+        let nodes = roots;
+        let current = context;
+
+        for (const [index, segment] of segments.entries()) {
+            const name = segments.slice(0, index + 1).join('.');
+            const relation = current.tableMetadata.relations.find(candidate => candidate.name === segment);
+            const childContext = relation && current.resolveContext?.(relation.relatedTable);
+
+            if (!relation || !childContext) {
+                issues.push({ parameter: '_dependent', message: `unknown relation '${name}'` });
+                break;
+            }
+            if (relation.type !== 'has_many') {
+                issues.push({ parameter: '_dependent', message: `'${name}' is not a has_many relation` });
+                break;
+            }
+            if (childContext.readOnly || childContext.tableConfig?.disabledEndpoints?.includes(OperationType.DELETE)) {
+                issues.push({ parameter: '_dependent', message: `DELETE is disabled for '${childContext.tableMetadata.resourceName}'` });
+                break;
+            }
+
+            let node = nodes.find(candidate => candidate.relation.name === segment);
+            if (!node) {
+                node = { relation, context: childContext, children: [] };
+                nodes.push(node);
+            }
+
+            nodes = node.children;
+            current = childContext;
+        }
+    }
+
+    if (issues.length > 0) {
+        throw new QueryValidationError(issues);
+    }
+
+    return roots;
+};
+
+/** Matches exactly the given rows by primary key */
+const selectedRows = ({ primaryKey, columns }: ActionContext, rows: any[]): SQL => {
+    if (primaryKey.isComposite) {
+        return or(...rows.map(row => primaryKey.where(primaryKey.fromRecord(row))))!;
+    }
+
+    const [keyColumn] = primaryKey.columnNames;
+    return inArray(columns[keyColumn], rows.map(row => row[keyColumn]));
+};
+
+/**
+ * Deletes the children of `parentRows` for each node, depth first, running the child table's
+ * beforeOperation hook for every row. Adds the number of deleted rows per table to `counts`.
+ */
+const deleteDependents = async (
+    tx: any,
+    req: Request,
+    res: Response,
+    parentContext: ActionContext,
+    parentRows: any[],
+    nodes: DependentNode[],
+    counts: Record<string, number>
+): Promise<void> => {
+    for (const { relation, context, children } of nodes) {
+        const parentKey = resolveParentKey(relation, parentContext.tableMetadata);
+        const parentKeyValues = [...new Set(parentRows.map(row => row[parentKey]))].filter(value => value != null);
+        if (parentKeyValues.length === 0) continue;
+
+        const foreignKey = context.columns[relation.foreignKey];
+        const rows = await tx.select().from(context.table).where(inArray(foreignKey, parentKeyValues));
+        if (rows.length === 0) continue;
+
+        const beforeOperation = context.tableConfig?.hooks?.beforeOperation;
+        if (beforeOperation) {
+            for (const row of rows) {
+                const hookContext = createHookContext(
+                    req,
+                    res,
+                    OperationType.DELETE,
+                    context.tableMetadata,
+                    context.primaryKeyColumn,
+                    context.columns,
+                    { recordId: context.primaryKey.fromRecord(row) }
+                );
+
+                try {
+                    await beforeOperation(hookContext);
+                } catch (hookError) {
+                    throw new DependentHookError(context.tableMetadata.name, hookError);
+                }
+            }
+        }
+
+        await deleteDependents(tx, req, res, context, rows, children, counts);
+        // Only the selected rows are deleted; rows inserted since have not passed the hook
+        await tx.delete(context.table).where(selectedRows(context, rows));
+
+        counts[context.tableMetadata.resourceName] = (counts[context.tableMetadata.resourceName] ?? 0) + rows.length;
+    }
+};
@@ -1,7 +1,9 @@
+import { eq } from 'drizzle-orm';
 import { Request, Response } from 'express';
 
-import { ErrorHandler } from '../utils/error-handler';
+import { ErrorHandler, QueryValidationError } from '../utils/error-handler';
 import { createHookContext, OperationType } from '../utils/hook-context';
+import { PaginationLinks } from '../utils/pagination-links';
 import { QueryBuilder } from '../utils/query-builder';
 import { QueryParser } from '../utils/query-parser';
 import { ActionContext, ActionHandler } from './types';
@@ -20,6 +22,11 @@ export const getManyAction: ActionHandler = async (
         schema,
         tablesMetadataMap,
         tableConfig,
+        strictQuery,
+        countStrategy,
+        responseEnvelope,
+        maxEmbedDepth,
+        parentScope,
         logger
     } = context;
 
@@ -33,7 +40,19 @@ export const getManyAction: ActionHandler = async (
             query: req.query
         }, 'Processing GET_MANY request');
 
-        const params = QueryParser.parseQueryParams(req);
+        const params = QueryParser.parseQueryParams(req, { strict: strictQuery, logger });
+        const queryBuilder = new QueryBuilder(db, table, columns, schema, tablesMetadataMap, tableMetadata.name, {
+            maxEmbedDepth,
+            baseCondition: parentScope && eq(columns[parentScope.column], parentScope.value),
+            logger
+        });
+
+        if (strictQuery) {
+            const issues = queryBuilder.findInvalidParams(params);
+            if (issues.length > 0) {
+                throw new QueryValidationError(issues);
+            }
+        }
 
         // Execute beforeOperation hook
         const hookContext = createHookContext(
@@ -47,25 +66,45 @@ export const getManyAction: ActionHandler = async (
         );
 
         if (tableConfig?.hooks?.beforeOperation) {
-            await tableConfig.hooks.beforeOperation(hookContext);
+            try {
+                await tableConfig.hooks.beforeOperation(hookContext);
+            } catch (hookError) {
+                logger.error({
+                    requestId,
+                    table: tableMetadata.name,
+                    duration: Date.now() - startTime,
+                    error: hookError
+                }, 'GET_MANY request failed in beforeOperation hook');
+
+                ErrorHandler.handleError(res, hookError, 'beforeOperation', requestId);
+                return;
+            }
         }
 
-        const queryBuilder = new QueryBuilder(db, table, columns, schema, tablesMetadataMap, tableMetadata.name);
-
         logger.debug({
             requestId,
             table: tableMetadata.name,
             parsedParams: {
                 filters: params.filters,
+                where: params.where,
                 sort: params.sort,
                 pagination: params.pagination,
-                embed: params.embed
+                embed: params.embed,
+                count: params.count,
+                fields: params.fields
             }
         }, 'Parsed query parameters');
 
-        const { query, embedKeys } = queryBuilder.buildSelectQuery(params);
+        const { query, whereConditions, embedKeys, fieldSelection, cursorPagination, window } = queryBuilder.buildSelectQuery(params);
         let data = await query;
 
+        // Keyset pagination fetches one extra row and may need to restore the requested order
+        const cursorPage = cursorPagination?.paginate(data);
+        if (cursorPage) {
+            data = cursorPage.rows;
+        }
+        const fetchedCount = data.length;
+
         logger.debug({
             requestId,
             table: tableMetadata.name,
@@ -81,15 +120,31 @@ export const getManyAction: ActionHandler = async (
                 embedKeys
             }, 'Applying embeds');
 
-            data = await queryBuilder.applyEmbeds(data, embedKeys);
+            data = await queryBuilder.applyEmbeds(data, embedKeys, params.scoped);
         }
 
+        data = await queryBuilder.applyCounts(data, params.count, params.scoped);
+
+        data = data.map(fieldSelection.apply);
+
         // Execute afterOperation hook
         if (tableConfig?.hooks?.afterOperation) {
-            data = await tableConfig.hooks.afterOperation(hookContext, data);
+            try {
+                data = await tableConfig.hooks.afterOperation(hookContext, data);
+            } catch (hookError) {
+                logger.error({
+                    requestId,
+                    table: tableMetadata.name,
+                    duration: Date.now() - startTime,
+                    error: hookError
+                }, 'GET_MANY request failed in afterOperation hook');
+
+                ErrorHandler.handleError(res, hookError, 'afterOperation', requestId);
+                return;
+            }
         }
 
-        const totalCount = await queryBuilder.getTotalCount(params.filters);
+        const totalCount = await queryBuilder.getTotalCount(whereConditions, countStrategy);
         const duration = Date.now() - startTime;
 
         logger.info({
@@ -98,15 +153,38 @@ export const getManyAction: ActionHandler = async (
             recordsCount: data.length,
             totalCount,
             duration,
-            hasFilters: Object.keys(params.filters).length > 0,
+            hasFilters: Object.keys(params.filters).length > 0 || !!params.where,
             hasSort: !!params.sort,
             hasPagination: !!params.pagination,
             hasEmbeds: embedKeys && embedKeys.length > 0
         }, 'GET_MANY request completed successfully');
 
-        // Set X-Total-Count header
-        res.set('X-Total-Count', totalCount.toString());
-        res.json(data);
+        // Set X-Total-Count header (skipped when the count strategy is 'none')
+        if (totalCount !== undefined) {
+            res.set('X-Total-Count', totalCount.toString());
+        }
+
+        if (cursorPage?.nextCursor) {
+            res.set('X-Next-Cursor', cursorPage.nextCursor);
+        }
+        if (cursorPage?.prevCursor) {
+            res.set('X-Prev-Cursor', cursorPage.prevCursor);
+        }
+
+        const { links, meta } = PaginationLinks.build(req, {
+            pagination: params.pagination,
+            fetchedCount,
+            total: totalCount,
+            window,
+            cursorPage
+        });
+
+        const linkHeader = PaginationLinks.formatHeader(links);
+        if (linkHeader) {
+            res.set('Link', linkHeader);
+        }
+
+        res.json(responseEnvelope ? { data, meta, links } : data);
     } catch (error: any) {
         const duration = Date.now() - startTime;
         logger.error({
@@ -116,11 +194,6 @@ export const getManyAction: ActionHandler = async (
             error: error.message
         }, 'GET_MANY request failed');
 
-        // Check if error is from beforeOperation hook
-        if (error.message && typeof error.message === 'string') {
-            ErrorHandler.handleError(res, error, 'beforeOperation', requestId);
-        } else {
-            ErrorHandler.handleError(res, error, 'getMany', requestId);
-        }
+        ErrorHandler.handleError(res, error, 'getMany', requestId);
     }
 };
@@ -1,8 +1,10 @@
-import { eq } from 'drizzle-orm';
 import { Request, Response } from 'express';
 
 import { ErrorHandler } from '../utils/error-handler';
 import { createHookContext, OperationType } from '../utils/hook-context';
+import { QueryBuilder } from '../utils/query-builder';
+import { QueryParser } from '../utils/query-parser';
+import { resolveRecordId } from './record-id';
 import { ActionContext, ActionHandler } from './types';
 
 export const getOneAction: ActionHandler = async (
@@ -15,8 +17,12 @@ export const getOneAction: ActionHandler = async (
         table,
         tableMetadata,
         primaryKeyColumn,
+        primaryKey,
         columns,
+        schema,
+        tablesMetadataMap,
         tableConfig,
+        maxEmbedDepth,
         logger
     } = context;
 
@@ -24,7 +30,8 @@ export const getOneAction: ActionHandler = async (
     const startTime = Date.now();
 
     try {
-        const { id } = req.params;
+        const id = req.params.id ?? req.params.value;
+        const recordId = await resolveRecordId(req, context);
 
         logger.debug({
             requestId,
@@ -41,7 +48,7 @@ export const getOneAction: ActionHandler = async (
             tableMetadata,
             primaryKeyColumn,
             columns,
-            { recordId: id }
+            { recordId }
         );
 
         if (tableConfig?.hooks?.beforeOperation) {
@@ -60,6 +67,18 @@ export const getOneAction: ActionHandler = async (
             }
         }
 
+        if (recordId === undefined) {
+            logger.info({
+                requestId,
+                table: tableMetadata.name,
+                id,
+                duration: Date.now() - startTime
+            }, 'GET_ONE request - lookup value not found');
+
+            ErrorHandler.handleNotFound(res, undefined, requestId);
+            return;
+        }
+
         // Use dynamic primary key instead of hardcoded 'id'
         if (!columns[primaryKeyColumn]) {
             logger.error({
@@ -76,7 +95,15 @@ export const getOneAction: ActionHandler = async (
             return;
         }
 
-        const query = db.select().from(table).where(eq(columns[primaryKeyColumn], id));
+        const { fields, embed, scoped } = QueryParser.parseItemParams(req);
+        const queryBuilder = new QueryBuilder(db, table, columns, schema, tablesMetadataMap, tableMetadata.name, {
+            maxEmbedDepth,
+            logger
+        });
+        queryBuilder.validateEmbeds(embed);
+        const fieldSelection = queryBuilder.selectFields(fields, embed);
+
+        const query = queryBuilder.buildSelectOneQuery(primaryKey.where(recordId), fieldSelection);
         const data = await query;
         const duration = Date.now() - startTime;
 
@@ -92,7 +119,8 @@ export const getOneAction: ActionHandler = async (
             return;
         }
 
-        let result = data[0];
+        const [record] = await queryBuilder.applyEmbeds(data, embed, scoped);
+        let result = fieldSelection.apply(record);
 
         // Execute afterOperation hook
         if (tableConfig?.hooks?.afterOperation) {
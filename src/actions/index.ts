@@ -2,6 +2,9 @@ export { createAction } from './create';
 export { deleteAction } from './delete';
 export { getManyAction } from './get-many';
 export { getOneAction } from './get-one';
+export { linkAction } from './link';
+export { resolveParentScope } from './parent-scope';
+export { refreshAction } from './refresh';
 export { replaceAction } from './replace';
-export type { ActionContext, ActionHandler } from './types';
+export type { ActionContext, ActionHandler, ParentScope } from './types';
 export { updateAction } from './update';
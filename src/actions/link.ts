@@ -0,0 +1,252 @@
+import { and, eq, inArray, or } from 'drizzle-orm';
+import { Request, Response } from 'express';
+import { z } from 'zod';
+
+import { ErrorHandler } from '../utils/error-handler';
+import { createHookContext, OperationType } from '../utils/hook-context';
+import { RecordId } from '../utils/primary-key';
+import { RelationMetadata, resolveParentKey } from '../utils/schema-inspector';
+import { ActionContext } from './types';
+
+type LinkOperation = 'link' | 'unlink' | 'replace';
+
+const LinkIdsSchema = z.array(z.union([z.string(), z.number()]));
+
+/** Raised when the junction table's beforeOperation hook rejects adding or removing a link */
+class JunctionHookError extends Error {
+    constructor(public readonly table: string, public readonly hookError: unknown) {
+        super(`beforeOperation hook rejected a link change in '${table}'`);
+        this.name = 'JunctionHookError';
+    }
+}
+
+/**
+ * Handles link management for a `many_to_many` relation of the parent table:
+ *
+ * - `link`: `PUT /posts/:id/tags/:targetId` adds the junction row unless it exists
+ * - `unlink`: `DELETE /posts/:id/tags/:targetId` removes the junction row if it exists
+ * - `replace`: `PUT /posts/:id/tags` with an array of ids makes the links match exactly that set
+ *
+ * Every operation is idempotent, runs in a transaction that locks the parent row and responds
+ * with 204. The parent table's UPDATE beforeOperation hook runs before any change, and the
+ * junction table's CREATE and DELETE hooks run for every junction row that is added or removed.
+ */
+export const linkAction = async (
+    req: Request,
+    res: Response,
+    context: ActionContext,
+    relation: RelationMetadata,
+    operation: LinkOperation
+): Promise<void> => {
+    const { db, table, tableMetadata, primaryKeyColumn, primaryKey, columns, tableConfig, resolveContext, logger } = context;
+
+    // Link routes are only registered when both contexts exist
+    const junctionContext = resolveContext!(relation.through!.table)!;
+    const relatedContext = resolveContext!(relation.relatedTable)!;
+
+    const requestId = (req as any).requestId;
+    const startTime = Date.now();
+    const { id, targetId } = req.params;
+
+    try {
+        logger.debug({
+            requestId,
+            table: tableMetadata.name,
+            id,
+            relation: relation.name,
+            operation
+        }, 'Processing LINK request');
+
+        const recordId = primaryKey.parse(id);
+
+        // Ids in the URL and body address the related table's primary key
+        const rawTargetIds = operation === 'replace' ? LinkIdsSchema.parse(req.body) : [targetId];
+        const targetIds = [...new Set(rawTargetIds.map(String))]
+            .map(value => relatedContext.primaryKey.parse(value, operation === 'replace' ? 'body' : 'targetId'));
+
+        // Execute beforeOperation hook
+        const hookContext = createHookContext(
+            req,
+            res,
+            OperationType.UPDATE,
+            tableMetadata,
+            primaryKeyColumn,
+            columns,
+            { recordId }
+        );
+
+        if (tableConfig?.hooks?.beforeOperation) {
+            try {
+                await tableConfig.hooks.beforeOperation(hookContext);
+            } catch (hookError) {
+                logger.error({
+                    requestId,
+                    table: tableMetadata.name,
+                    duration: Date.now() - startTime,
+                    error: hookError
+                }, 'LINK request failed in beforeOperation hook');
+
+                ErrorHandler.handleError(res, hookError, 'beforeOperation', requestId);
+                return;
+            }
+        }
+
+        const junctionTable = junctionContext.table as any;
+        const { targetKey, targetColumn } = relation.through!;
+
+        // Runs the junction table's beforeOperation hook; rejections roll back the whole change
+        const runJunctionHook = async (junctionOperation: OperationType, options: { record?: any; recordId?: RecordId }) => {
+            const junctionHookContext = createHookContext(
+                req,
+                res,
+                junctionOperation,
+                junctionContext.tableMetadata,
+                junctionContext.primaryKeyColumn,
+                junctionContext.columns,
+                options
+            );
+
+            const beforeOperation = junctionContext.tableConfig?.hooks?.beforeOperation;
+            if (beforeOperation) {
+                try {
+                    await beforeOperation(junctionHookContext);
+                } catch (hookError) {
+                    throw new JunctionHookError(junctionContext.tableMetadata.name, hookError);
+                }
+            }
+
+            return junctionHookContext;
+        };
+
+        const changes = await db.transaction(async (tx) => {
+            // Locking the parent serializes concurrent link changes, so both cannot insert the same link
+            const [parent] = await tx.select().from(table).where(primaryKey.where(recordId)).for('update');
+            if (!parent) {
+                throw new Error(`Record not found in '${tableMetadata.resourceName}'`);
+            }
+
+            const targets = targetIds.length > 0
+                ? await tx.select().from(relatedContext.table).where(or(...targetIds.map(id => relatedContext.primaryKey.where(id))))
+                : [];
+            if (operation !== 'unlink' && targets.length < targetIds.length) {
+                throw new Error(`Related record not found in '${relatedContext.tableMetadata.resourceName}'`);
+            }
+
+            const parentKeyValue = parent[resolveParentKey(relation, tableMetadata)];
+            const targetKeyValues = targets.map((target: any) => target[targetColumn]);
+            const parentLinks = eq(junctionTable[relation.foreignKey], parentKeyValue);
+
+            const existing: any[] = await tx.select().from(junctionTable).where(parentLinks);
+            const linked = new Set(existing.map(row => row[targetKey]));
+
+            let removed: any[] = [];
+            if (operation === 'unlink') {
+                removed = existing.filter(row => targetKeyValues.includes(row[targetKey]));
+            } else if (operation === 'replace') {
+                removed = existing.filter(row => !targetKeyValues.includes(row[targetKey]));
+            }
+
+            const removedHookContexts = [];
+            for (const row of removed) {
+                removedHookContexts.push(await runJunctionHook(OperationType.DELETE, {
+                    recordId: junctionContext.primaryKey.fromRecord(row)
+                }));
+            }
+
+            if (removed.length > 0) {
+                await tx.delete(junctionTable).where(and(
+                    parentLinks,
+                    inArray(junctionTable[targetKey], removed.map(row => row[targetKey]))
+                ));
+            }
+
+            const added = operation === 'unlink'
+                ? []
+                : targetKeyValues.filter((value: unknown) => !linked.has(value));
+            const addedHookContexts = [];
+            for (const value of added) {
+                addedHookContexts.push(await runJunctionHook(OperationType.CREATE, {
+                    record: { [relation.foreignKey]: parentKeyValue, [targetKey]: value }
+                }));
+            }
+
+            // Links added by other writers in the meantime (e.g. POST on the junction table) are skipped
+            const inserted = addedHookContexts.length > 0
+                ? await tx.insert(junctionTable)
+                    .values(addedHookContexts.map(hookContext => hookContext.record))
+                    .onConflictDoNothing()
+                    .returning() as any[]
+                : [];
+            const insertedLinks = addedHookContexts.flatMap(hookContext => {
+                const row = inserted.find(candidate => candidate[targetKey] === hookContext.record[targetKey]);
+                return row ? [{ hookContext, row }] : [];
+            });
+
+            return { parent, removedHookContexts, insertedLinks };
+        });
+
+        // Execute afterOperation hooks of the junction table, then of the parent
+        const junctionAfterOperation = junctionContext.tableConfig?.hooks?.afterOperation;
+        const parentAfterOperation = tableConfig?.hooks?.afterOperation;
+        try {
+            if (junctionAfterOperation) {
+                for (const removedHookContext of changes.removedHookContexts) {
+                    await junctionAfterOperation(removedHookContext, { deleted: true });
+                }
+                for (const { hookContext: addedHookContext, row } of changes.insertedLinks) {
+                    await junctionAfterOperation(addedHookContext, row);
+                }
+            }
+            if (parentAfterOperation) {
+                await parentAfterOperation(hookContext, changes.parent);
+            }
+        } catch (hookError) {
+            logger.error({
+                requestId,
+                table: tableMetadata.name,
+                duration: Date.now() - startTime,
+                error: hookError
+            }, 'LINK request failed in afterOperation hook');
+
+            ErrorHandler.handleError(res, hookError, 'afterOperation', requestId);
+            return;
+        }
+
+        logger.info({
+            requestId,
+            table: tableMetadata.name,
+            id,
+            relation: relation.name,
+            operation,
+            duration: Date.now() - startTime
+        }, 'LINK request completed successfully');
+
+        res.status(204).send();
+    } catch (error: any) {
+        const duration = Date.now() - startTime;
+
+        if (error instanceof JunctionHookError) {
+            logger.error({
+                requestId,
+                table: tableMetadata.name,
+                junctionTable: error.table,
+                duration,
+                error: error.hookError
+            }, 'LINK request failed in junction beforeOperation hook');
+
+            ErrorHandler.handleError(res, error.hookError, 'beforeOperation', requestId);
+            return;
+        }
+
+        logger.error({
+            requestId,
+            table: tableMetadata.name,
+            id,
+            relation: relation.name,
+            duration,
+            error: error.message
+        }, 'LINK request failed');
+
+        ErrorHandler.handleError(res, error, 'link', requestId);
+    }
+};
@@ -0,0 +1,85 @@
+import { Request, Response } from 'express';
+
+import { ErrorHandler } from '../utils/error-handler';
+import { createHookContext, OperationType } from '../utils/hook-context';
+import { RelationMetadata, resolveParentKey } from '../utils/schema-inspector';
+import { ActionContext, ParentScope } from './types';
+
+/**
+ * Loads the parent record of a nested route (`/users/:id/posts`) and returns the scope
+ * for the child action. The parent table's GET_ONE hooks run on the lookup, so a hook
+ * that denies access to the parent also denies access to its children.
+ *
+ * Responds with 404 (or the hook error) and returns undefined when the parent is not accessible.
+ */
+export const resolveParentScope = async (
+    req: Request,
+    res: Response,
+    parentContext: ActionContext,
+    relation: RelationMetadata
+): Promise<ParentScope | undefined> => {
+    const { db, table, tableMetadata, primaryKeyColumn, primaryKey, columns, tableConfig, logger } = parentContext;
+
+    const requestId = (req as any).requestId;
+    const { id } = req.params;
+
+    try {
+        const recordId = primaryKey.parse(id);
+        const hookContext = createHookContext(
+            req,
+            res,
+            OperationType.GET_ONE,
+            tableMetadata,
+            primaryKeyColumn,
+            columns,
+            { recordId }
+        );
+
+        if (tableConfig?.hooks?.beforeOperation) {
+            try {
+                await tableConfig.hooks.beforeOperation(hookContext);
+            } catch (hookError) {
+                ErrorHandler.handleError(res, hookError, 'beforeOperation', requestId);
+                return undefined;
+            }
+        }
+
+        const [parent] = await db.select().from(table).where(primaryKey.where(recordId));
+        if (!parent) {
+            logger.info({
+                requestId,
+                table: tableMetadata.name,
+                id,
+                relation: relation.name
+            }, 'Nested route - parent record not found');
+
+            ErrorHandler.handleNotFound(res, undefined, requestId);
+            return undefined;
+        }
+
+        if (tableConfig?.hooks?.afterOperation) {
+            try {
+                await tableConfig.hooks.afterOperation(hookContext, parent);
+            } catch (hookError) {
+                ErrorHandler.handleError(res, hookError, 'afterOperation', requestId);
+                return undefined;
+            }
+        }
+
+        return {
+            table: tableMetadata.name,
+            column: relation.foreignKey,
+            value: (parent as any)[resolveParentKey(relation, tableMetadata)]
+        };
+    } catch (error: any) {
+        logger.error({
+            requestId,
+            table: tableMetadata.name,
+            id,
+            error: error.message
+        }, 'Nested route parent lookup failed');
+
+        ErrorHandler.handleError(res, error, 'getParent', requestId);
+        return undefined;
+    }
+};
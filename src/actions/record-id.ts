@@ -0,0 +1,27 @@
+import { Request } from 'express';
+
+import { RecordId } from '../utils/primary-key';
+import { ActionContext } from './types';
+
+/**
+ * Reads the record addressed by an item route. `/posts/:id` is parsed as the primary key;
+ * on lookup routes (`/posts/by/slug/:value`) the record is found by the unique column first,
+ * so hooks and queries always work with the primary key.
+ *
+ * Throws a QueryValidationError for malformed values and returns undefined when
+ * no record has the lookup value. Actions respond with 404 for that only after the
+ * beforeOperation hook has run, so a caller the hook denies cannot probe which values exist.
+ */
+export const resolveRecordId = async (req: Request, context: ActionContext): Promise<RecordId | undefined> => {
+    const { db, table, columns, primaryKey, lookupKey } = context;
+
+    if (!lookupKey) {
+        return primaryKey.parse(req.params.id);
+    }
+
+    const value = lookupKey.parse(req.params.value, 'value');
+    const keyColumns = Object.fromEntries(primaryKey.columnNames.map(name => [name, columns[name]]));
+    const [record] = await db.select(keyColumns).from(table).where(lookupKey.where(value));
+
+    return record && primaryKey.fromRecord(record);
+};
@@ -0,0 +1,98 @@
+import { PgMaterializedView } from 'drizzle-orm/pg-core';
+import { Request, Response } from 'express';
+
+import { ErrorHandler } from '../utils/error-handler';
+import { createHookContext, OperationType } from '../utils/hook-context';
+import { ActionContext, ActionHandler } from './types';
+
+/**
+ * Re-runs the query of a materialized view (`REFRESH MATERIALIZED VIEW`).
+ * The table's beforeOperation hook guards the endpoint; throwing from it responds with 403.
+ */
+export const refreshAction: ActionHandler = async (
+    req: Request,
+    res: Response,
+    context: ActionContext
+): Promise<void> => {
+    const {
+        db,
+        table,
+        tableMetadata,
+        primaryKeyColumn,
+        columns,
+        tableConfig,
+        logger
+    } = context;
+
+    const requestId = (req as any).requestId;
+    const startTime = Date.now();
+
+    try {
+        logger.debug({
+            requestId,
+            table: tableMetadata.name
+        }, 'Processing REFRESH request');
+
+        // Execute beforeOperation hook
+        const hookContext = createHookContext(
+            req,
+            res,
+            OperationType.REFRESH,
+            tableMetadata,
+            primaryKeyColumn,
+            columns
+        );
+
+        if (tableConfig?.hooks?.beforeOperation) {
+            try {
+                await tableConfig.hooks.beforeOperation(hookContext);
+            } catch (hookError) {
+                logger.error({
+                    requestId,
+                    table: tableMetadata.name,
+                    duration: Date.now() - startTime,
+                    error: hookError
+                }, 'REFRESH request failed in beforeOperation hook');
+
+                ErrorHandler.handleError(res, hookError, 'beforeOperation', requestId);
+                return;
+            }
+        }
+
+        await db.refreshMaterializedView(table as unknown as PgMaterializedView);
+
+        // Execute afterOperation hook
+        if (tableConfig?.hooks?.afterOperation) {
+            try {
+                await tableConfig.hooks.afterOperation(hookContext, { refreshed: true });
+            } catch (hookError) {
+                logger.error({
+                    requestId,
+                    table: tableMetadata.name,
+                    duration: Date.now() - startTime,
+                    error: hookError
+                }, 'REFRESH request failed in afterOperation hook');
+
+                ErrorHandler.handleError(res, hookError, 'afterOperation', requestId);
+                return;
+            }
+        }
+
+        logger.info({
+            requestId,
+            table: tableMetadata.name,
+            duration: Date.now() - startTime
+        }, 'REFRESH request completed successfully');
+
+        res.status(204).send();
+    } catch (error: any) {
+        logger.error({
+            requestId,
+            table: tableMetadata.name,
+            duration: Date.now() - startTime,
+            error: error.message
+        }, 'REFRESH request failed');
+
+        ErrorHandler.handleError(res, error, 'refresh', requestId);
+    }
+};
@@ -1,9 +1,11 @@
-import { eq } from 'drizzle-orm';
-import { createInsertSchema } from 'drizzle-zod';
 import { Request, Response } from 'express';
 
+import { createWriteSchema, omitUnreadable } from '../utils/column-rules';
 import { ErrorHandler } from '../utils/error-handler';
 import { createHookContext, OperationType } from '../utils/hook-context';
+import { QueryBuilder } from '../utils/query-builder';
+import { QueryParser } from '../utils/query-parser';
+import { resolveRecordId } from './record-id';
 import { ActionContext, ActionHandler } from './types';
 
 export const replaceAction: ActionHandler = async (
@@ -16,8 +18,12 @@ export const replaceAction: ActionHandler = async (
         table,
         tableMetadata,
         primaryKeyColumn,
+        primaryKey,
         columns,
+        schema,
+        tablesMetadataMap,
         tableConfig,
+        maxEmbedDepth,
         logger
     } = context;
 
@@ -25,7 +31,8 @@ export const replaceAction: ActionHandler = async (
     const startTime = Date.now();
 
     try {
-        const { id } = req.params;
+        const id = req.params.id ?? req.params.value;
+        const recordId = await resolveRecordId(req, context);
 
         logger.debug({
             requestId,
@@ -34,7 +41,15 @@ export const replaceAction: ActionHandler = async (
             replaceFields: Object.keys(req.body || {})
         }, 'Processing REPLACE request');
 
-        const insertSchema = createInsertSchema(table);
+        // Reject an invalid _embed before replacing
+        const { embed, scoped } = QueryParser.parseItemParams(req);
+        const queryBuilder = new QueryBuilder(db, table, columns, schema, tablesMetadataMap, tableMetadata.name, {
+            maxEmbedDepth,
+            logger
+        });
+        queryBuilder.validateEmbeds(embed);
+
+        const insertSchema = createWriteSchema(table, tableMetadata);
 
         // For PUT, we need the full object (not partial)
         const validatedBody = insertSchema.parse(req.body);
@@ -54,7 +69,7 @@ export const replaceAction: ActionHandler = async (
             tableMetadata,
             primaryKeyColumn,
             columns,
-            { record: validatedBody, recordId: id }
+            { record: validatedBody, recordId }
         );
 
         if (tableConfig?.hooks?.beforeOperation) {
@@ -73,10 +88,23 @@ export const replaceAction: ActionHandler = async (
             }
         }
 
-        // Use dynamic primary key
-        await db.update(table).set(validatedBody).where(eq(columns[primaryKeyColumn], id));
+        if (recordId === undefined) {
+            logger.info({
+                requestId,
+                table: tableMetadata.name,
+                id,
+                duration: Date.now() - startTime
+            }, 'REPLACE request - lookup value not found');
+
+            ErrorHandler.handleNotFound(res, undefined, requestId);
+            return;
+        }
+
+        if (Object.keys(validatedBody).length > 0) {
+            await db.update(table).set(validatedBody).where(primaryKey.where(recordId));
+        }
 
-        const updatedRecord = await db.select().from(table).where(eq(columns[primaryKeyColumn], id));
+        const updatedRecord = await db.select().from(table).where(primaryKey.where(recordId));
         const duration = Date.now() - startTime;
 
         if (updatedRecord.length === 0) {
@@ -91,7 +119,8 @@ export const replaceAction: ActionHandler = async (
             return;
         }
 
-        let result = updatedRecord[0];
+        let [result] = (await queryBuilder.applyEmbeds(updatedRecord, embed, scoped))
+            .map(record => omitUnreadable(record, tableMetadata));
 
         // Execute afterOperation hook
         if (tableConfig?.hooks?.afterOperation) {
@@ -2,26 +2,66 @@ import { PgTable } from 'drizzle-orm/pg-core';
 import { PgliteDatabase } from 'drizzle-orm/pglite';
 import { Request, Response } from 'express';
 
+import { ColumnRule } from '../utils/column-rules';
 import { Logger } from '../utils/logger';
+import { PrimaryKey } from '../utils/primary-key';
+import { CountStrategy } from '../utils/query-builder';
 import { TableMetadata } from '../utils/schema-inspector';
 
 export type DrizzleDb = PgliteDatabase<any>;
 
+/** Restricts an action to the children of one parent record, for nested routes such as `/users/:id/posts` */
+export interface ParentScope {
+    /** Name of the parent table */
+    table: string;
+    /** Foreign key column of this table referencing the parent */
+    column: string;
+    /** Value of the referenced parent column */
+    value: unknown;
+}
+
 export interface ActionContext {
     db: DrizzleDb;
     table: PgTable;
     tableMetadata: TableMetadata;
+    /** First primary key column; see `primaryKey` for addressing records */
     primaryKeyColumn: string;
+    /** Matches item route ids against every primary key column */
+    primaryKey: PrimaryKey;
+    /** Views and tables without a primary key only serve lists; write routes respond with 405 */
+    readOnly?: boolean;
+    /** Set on lookup routes (`/posts/by/slug/:value`): the unique column that addresses the record */
+    lookupKey?: PrimaryKey;
     columns: Record<string, any>;
     schema: Record<string, PgTable | any>;
     tablesMetadataMap: Map<string, any>;
     tableConfig?: {
         disabledEndpoints?: Array<string>;
+        strictQuery?: boolean;
+        countStrategy?: CountStrategy;
+        responseEnvelope?: boolean;
+        maxEmbedDepth?: number;
+        idSeparator?: string;
+        lookupKeys?: string[];
+        refreshEndpoint?: boolean;
+        columns?: Record<string, ColumnRule>;
         hooks?: {
             beforeOperation?: (context: any) => Promise<void>;
             afterOperation?: (context: any, result: any) => Promise<any>;
         };
     };
+    /** Resolved strict query mode (table setting, falling back to the adapter setting). */
+    strictQuery?: boolean;
+    /** Resolved X-Total-Count strategy (table setting, falling back to the adapter setting). */
+    countStrategy?: CountStrategy;
+    /** Resolved list response format (table setting, falling back to the adapter setting). */
+    responseEnvelope?: boolean;
+    /** Resolved maximum `_embed` path depth (table setting, falling back to the adapter setting). */
+    maxEmbedDepth?: number;
+    /** Set on nested routes: list results and created records belong to this parent. */
+    parentScope?: ParentScope;
+    /** Looks up the action context of another table, e.g. the children removed by `_dependent`. */
+    resolveContext?: (tableName: string) => ActionContext | undefined;
     logger: Logger;
 }
 
@@ -1,9 +1,11 @@
-import { eq } from 'drizzle-orm';
-import { createInsertSchema } from 'drizzle-zod';
 import { Request, Response } from 'express';
 
+import { createWriteSchema, omitUnreadable } from '../utils/column-rules';
 import { ErrorHandler } from '../utils/error-handler';
 import { createHookContext, OperationType } from '../utils/hook-context';
+import { QueryBuilder } from '../utils/query-builder';
+import { QueryParser } from '../utils/query-parser';
+import { resolveRecordId } from './record-id';
 import { ActionContext, ActionHandler } from './types';
 
 export const updateAction: ActionHandler = async (
@@ -16,8 +18,12 @@ export const updateAction: ActionHandler = async (
         table,
         tableMetadata,
         primaryKeyColumn,
+        primaryKey,
         columns,
+        schema,
+        tablesMetadataMap,
         tableConfig,
+        maxEmbedDepth,
         logger
     } = context;
 
@@ -25,7 +31,8 @@ export const updateAction: ActionHandler = async (
     const startTime = Date.now();
 
     try {
-        const { id } = req.params;
+        const id = req.params.id ?? req.params.value;
+        const recordId = await resolveRecordId(req, context);
 
         logger.debug({
             requestId,
@@ -34,7 +41,15 @@ export const updateAction: ActionHandler = async (
             updateFields: Object.keys(req.body || {})
         }, 'Processing UPDATE request');
 
-        const insertSchema = createInsertSchema(table);
+        // Reject an invalid _embed before updating
+        const { embed, scoped } = QueryParser.parseItemParams(req);
+        const queryBuilder = new QueryBuilder(db, table, columns, schema, tablesMetadataMap, tableMetadata.name, {
+            maxEmbedDepth,
+            logger
+        });
+        queryBuilder.validateEmbeds(embed);
+
+        const insertSchema = createWriteSchema(table, tableMetadata);
         const validatedBody = insertSchema.partial().parse(req.body);
 
         logger.debug({
@@ -52,7 +67,7 @@ export const updateAction: ActionHandler = async (
             tableMetadata,
             primaryKeyColumn,
             columns,
-            { record: validatedBody, recordId: id }
+            { record: validatedBody, recordId }
         );
 
         if (tableConfig?.hooks?.beforeOperation) {
@@ -71,10 +86,24 @@ export const updateAction: ActionHandler = async (
             }
         }
 
-        // Use dynamic primary key
-        await db.update(table).set(validatedBody).where(eq(columns[primaryKeyColumn], id));
+        if (recordId === undefined) {
+            logger.info({
+                requestId,
+                table: tableMetadata.name,
+                id,
+                duration: Date.now() - startTime
+            }, 'UPDATE request - lookup value not found');
+
+            ErrorHandler.handleNotFound(res, undefined, requestId);
+            return;
+        }
+
+        // A body with only read-only or hidden fields leaves nothing to set, so the current record is returned
+        if (Object.keys(validatedBody).length > 0) {
+            await db.update(table).set(validatedBody).where(primaryKey.where(recordId));
+        }
 
-        const updatedRecord = await db.select().from(table).where(eq(columns[primaryKeyColumn], id));
+        const updatedRecord = await db.select().from(table).where(primaryKey.where(recordId));
         const duration = Date.now() - startTime;
 
         if (updatedRecord.length === 0) {
@@ -89,7 +118,8 @@ export const updateAction: ActionHandler = async (
             return;
         }
 
-        let result = updatedRecord[0];
+        let [result] = (await queryBuilder.applyEmbeds(updatedRecord, embed, scoped))
+            .map(record => omitUnreadable(record, tableMetadata));
 
         // Execute afterOperation hook
         if (tableConfig?.hooks?.afterOperation) {
@@ -1,4 +1,5 @@
-import { integer, pgTable, serial, text, timestamp } from 'drizzle-orm/pg-core';
+import { eq, sql } from 'drizzle-orm';
+import { integer, pgMaterializedView, pgSchema, pgTable, pgView, primaryKey, serial, text, timestamp, unique } from 'drizzle-orm/pg-core';
 
 export const users = pgTable('users', {
   id: serial('id').primaryKey(),
@@ -22,3 +23,54 @@ export const comments = pgTable('comments', {
   createdAt: timestamp('created_at').defaultNow(),
 });
 
+export const tags = pgTable('tags', {
+  id: serial('id').primaryKey(),
+  name: text('name').notNull().unique(),
+});
+
+export const postTags = pgTable('post_tags', {
+  id: serial('id').primaryKey(),
+  postId: integer('post_id').notNull().references(() => posts.id),
+  tagId: integer('tag_id').notNull().references(() => tags.id),
+}, (t) => [unique().on(t.postId, t.tagId)]);
+
+export const userSettings = pgTable('user_settings', {
+  userId: integer('user_id').notNull().references(() => users.id),
+  key: text('key').notNull(),
+  value: text('value'),
+}, (t) => [primaryKey({ columns: [t.userId, t.key] })]);
+
+export const billing = pgSchema('billing');
+
+export const invoices = billing.table('invoices', {
+  id: serial('id').primaryKey(),
+  userId: integer('user_id').notNull().references(() => users.id),
+  amount: integer('amount').notNull(),
+});
+
+export const auditLog = pgTable('audit_log', {
+  action: text('action').notNull(),
+  userId: integer('user_id').references(() => users.id),
+  createdAt: timestamp('created_at').defaultNow(),
+});
+
+export const postStats = pgView('post_stats').as((qb) => qb
+  .select({
+    id: posts.id,
+    title: posts.title,
+    userId: posts.userId,
+    commentCount: sql<number>`count(${comments.id})::int`.as('comment_count'),
+  })
+  .from(posts)
+  .leftJoin(comments, eq(comments.postId, posts.id))
+  .groupBy(posts.id));
+
+export const userPostCounts = pgMaterializedView('user_post_counts').as((qb) => qb
+  .select({
+    id: users.id,
+    fullName: users.fullName,
+    postCount: sql<number>`count(${posts.id})::int`.as('post_count'),
+  })
+  .from(users)
+  .leftJoin(posts, eq(posts.userId, users.id))
+  .groupBy(users.id));
@@ -1,20 +1,29 @@
-import { getTableColumns } from 'drizzle-orm';
+import { getTableColumns, getViewSelectedFields } from 'drizzle-orm';
 import { PgTable } from 'drizzle-orm/pg-core';
 import { PgliteDatabase } from 'drizzle-orm/pglite';
 import express from 'express';
 
 import {
     ActionContext,
+    ActionHandler,
     createAction,
     deleteAction,
     getManyAction,
     getOneAction,
+    linkAction,
+    refreshAction,
     replaceAction,
+    resolveParentScope,
     updateAction
 } from './actions';
+import { applyColumnRules, ColumnRule } from './utils/column-rules';
+import { DEFAULT_MAX_EMBED_DEPTH } from './utils/embed-builder';
 import { ErrorHandler } from './utils/error-handler';
 import { HookContext, OperationType } from './utils/hook-context';
 import { createLogger, Logger, LoggerOptions } from './utils/logger';
+import { NamingStrategy } from './utils/naming';
+import { DEFAULT_ID_SEPARATOR, PrimaryKey } from './utils/primary-key';
+import { CountStrategy } from './utils/query-builder';
 import { requestLoggingMiddleware, RequestLogOptions } from './utils/request-logger';
 import { SchemaInspector } from './utils/schema-inspector';
 
@@ -39,9 +48,83 @@ export interface DrizzleRestAdapterOptions {
         [tableName: string]: {
             disabledEndpoints?: Array<OperationType>;
             hooks?: TableHooks;
+            /** Route path of the table, e.g. `/categories` (default: derived from `namingStrategy`). */
+            path?: string;
+            /** Overrides the adapter-level `strictQuery` setting for this table. */
+            strictQuery?: boolean;
+            /** Overrides the adapter-level `countStrategy` setting for this table. */
+            countStrategy?: CountStrategy;
+            /** Overrides the adapter-level `responseEnvelope` setting for this table. */
+            responseEnvelope?: boolean;
+            /** Overrides the adapter-level `maxEmbedDepth` setting for this table. */
+            maxEmbedDepth?: number;
+            /** Overrides the adapter-level `idSeparator` setting for this table. */
+            idSeparator?: string;
+            /**
+             * Unique columns that can address single records, e.g. `['slug']` adds
+             * `GET`, `PATCH`, `PUT` and `DELETE /posts/by/slug/:value`.
+             */
+            lookupKeys?: string[];
+            /**
+             * Adds `POST /<view>/refresh` for a materialized view (default: false).
+             * Requires a beforeOperation hook, which guards the REFRESH operation.
+             */
+            refreshEndpoint?: boolean;
+            /**
+             * Access rules by column, e.g. `{ passwordHash: { hidden: true }, createdAt: { readOnly: true } }`.
+             * Hidden and write-only columns are never returned, filtered or sorted on; hidden and
+             * read-only columns are removed from request bodies.
+             */
+            columns?: Record<string, ColumnRule>;
         }
     };
 
+    /**
+     * How `X-Total-Count` is computed for list requests (default: 'exact').
+     * 'estimated' uses Postgres statistics for unfiltered lists, 'none' omits the header.
+     */
+    countStrategy?: CountStrategy;
+
+    /**
+     * Reject unknown filters, sort fields and embeds, and invalid query parameters,
+     * with a 400 response instead of silently ignoring them (default: false).
+     */
+    strictQuery?: boolean;
+
+    /**
+     * Wrap list responses in `{ data, meta, links }` instead of returning a bare array,
+     * for clients that cannot read response headers (default: false).
+     */
+    responseEnvelope?: boolean;
+
+    /**
+     * Maximum number of levels in an `_embed` path such as `comments.user` (default: 3).
+     * Deeper paths are rejected with a 400 response.
+     */
+    maxEmbedDepth?: number;
+
+    /**
+     * Separator between the values of a composite primary key in item routes (default: ',').
+     * `/post_tags/3,7` addresses the row with `postId = 3` and `tagId = 7` when the table
+     * declares `primaryKey({ columns: [t.postId, t.tagId] })`.
+     */
+    idSeparator?: string;
+
+    /**
+     * How tables are named in routes, hook contexts and derived embed keys (default: 'exported').
+     * 'exported' uses the schema export name (`/postCategories`); 'kebab', 'snake' and 'camel'
+     * convert the SQL table name (`post_categories` becomes `/post-categories`).
+     * Tables from a `pgSchema()` are namespaced under it: `/billing/invoices`.
+     */
+    namingStrategy?: NamingStrategy;
+
+    /**
+     * Tables to treat as junction tables for `many_to_many` embeds. Tables with exactly two
+     * foreign keys and a trivial primary key are detected automatically; list tables here
+     * that carry extra columns (e.g. a `createdAt` timestamp).
+     */
+    junctionTables?: string[];
+
     /** Security configuration */
     security?: {
         /** Maximum request body size in bytes (default: 1MB) */
@@ -69,6 +152,11 @@ export interface DrizzleRestAdapterOptions {
     };
 }
 
+/** Whether an operation is served for a table: not disabled, and only lists for read-only resources */
+const isEndpointEnabled = (context: ActionContext, operation: OperationType): boolean =>
+    !context.tableConfig?.disabledEndpoints?.includes(operation)
+    && (!context.readOnly || operation === OperationType.GET_MANY);
+
 export const createDrizzleRestAdapter = (options: DrizzleRestAdapterOptions) => {
     const router = express.Router();
     const { db, schema, tableOptions, logging } = options;
@@ -90,8 +178,13 @@ export const createDrizzleRestAdapter = (options: DrizzleRestAdapterOptions) =>
     }
 
     // Use schema introspection instead of simple iteration
-    const inspector = new SchemaInspector(schema);
-    const tables = inspector.extractTables();
+    const inspector = new SchemaInspector(schema, {
+        junctionTables: options.junctionTables,
+        namingStrategy: options.namingStrategy,
+        logger
+    });
+    const tables = inspector.extractTables()
+        .map(tableMetadata => applyColumnRules(tableMetadata, tableOptions?.[tableMetadata.name]?.columns));
 
     logger.debug({
         tables: tables.map(t => ({
@@ -105,144 +198,235 @@ export const createDrizzleRestAdapter = (options: DrizzleRestAdapterOptions) =>
     const tablesMetadataMap = new Map();
     tables.forEach(table => tablesMetadataMap.set(table.name, table));
 
+    // Action contexts by table name, used to register nested routes once every table is set up
+    const actionContexts = new Map<string, ActionContext>();
+    // Route paths by table name; `billing.invoices` is served at `/billing/invoices`
+    const resourcePaths = new Map<string, string>();
+
     tables.forEach(tableMetadata => {
         const table = schema[tableMetadata.name];
-        const resourcePath = `/${tableMetadata.name}`;
+        const tableConfig = tableOptions?.[tableMetadata.name];
+        const resourcePath = tableConfig?.path ?? `/${tableMetadata.resourceName.split('.').join('/')}`;
         const itemPath = `${resourcePath}/:id`;
 
+        const conflictingTable = [...resourcePaths].find(([, path]) => path === resourcePath)?.[0];
+        if (conflictingTable) {
+            throw new Error(`Tables '${conflictingTable}' and '${tableMetadata.name}' are both served at '${resourcePath}'`);
+        }
+        resourcePaths.set(tableMetadata.name, resourcePath);
+
         logger.debug({
             table: tableMetadata.name,
             resourcePath,
             primaryKey: tableMetadata.primaryKey
         }, 'Setting up routes for table');
 
-        // Get primary key column name(s)
-        const primaryKeyColumns = tableMetadata.primaryKey;
-        if (primaryKeyColumns.length === 0) {
-            logger.warn({
-                table: tableMetadata.name
-            }, 'Skipping table: no primary key found');
-            return;
+        // Views and keyless tables have no way to address a single row
+        const readOnly = tableMetadata.kind !== 'table' || tableMetadata.primaryKey.length === 0;
+        if (readOnly) {
+            logger.debug({
+                table: tableMetadata.name,
+                kind: tableMetadata.kind
+            }, 'Registering read-only resource');
         }
 
-        // For now, handle single-column primary keys (composite keys in future)
-        const primaryKeyColumn = primaryKeyColumns[0];
-        const columns = getTableColumns(table);
-        const tableConfig = tableOptions?.[tableMetadata.name];
+        const primaryKeyColumn = tableMetadata.primaryKey[0];
+        const columns = tableMetadata.kind === 'table' ? getTableColumns(table) : getViewSelectedFields(table);
+        const idSeparator = tableConfig?.idSeparator ?? options.idSeparator ?? DEFAULT_ID_SEPARATOR;
+
+        const actionContext: ActionContext = {
+            db,
+            table,
+            tableMetadata,
+            primaryKeyColumn,
+            primaryKey: new PrimaryKey(columns, tableMetadata, idSeparator),
+            readOnly,
+            columns,
+            schema,
+            tablesMetadataMap,
+            tableConfig,
+            strictQuery: tableConfig?.strictQuery ?? options.strictQuery ?? false,
+            countStrategy: tableConfig?.countStrategy ?? options.countStrategy ?? 'exact',
+            responseEnvelope: tableConfig?.responseEnvelope ?? options.responseEnvelope ?? false,
+            maxEmbedDepth: tableConfig?.maxEmbedDepth ?? options.maxEmbedDepth ?? DEFAULT_MAX_EMBED_DEPTH,
+            resolveContext: tableName => actionContexts.get(tableName),
+            logger
+        };
+        actionContexts.set(tableMetadata.name, actionContext);
 
         // GET /<table-name>
-        if (!tableConfig?.disabledEndpoints?.includes(OperationType.GET_MANY)) {
+        if (isEndpointEnabled(actionContext, OperationType.GET_MANY)) {
             router.get(resourcePath, async (req, res) => {
-                const actionContext: ActionContext = {
-                    db,
-                    table,
-                    tableMetadata,
-                    primaryKeyColumn,
-                    columns,
-                    schema,
-                    tablesMetadataMap,
-                    tableConfig,
-                    logger
-                };
-
                 await getManyAction(req, res, actionContext);
             });
         }
 
         // POST /<table-name>
-        if (!tableConfig?.disabledEndpoints?.includes(OperationType.CREATE)) {
+        if (isEndpointEnabled(actionContext, OperationType.CREATE)) {
             router.post(resourcePath, async (req, res) => {
-                const actionContext: ActionContext = {
-                    db,
-                    table,
-                    tableMetadata,
-                    primaryKeyColumn,
-                    columns,
-                    schema,
-                    tablesMetadataMap,
-                    tableConfig,
-                    logger
-                };
-
                 await createAction(req, res, actionContext);
             });
         }
 
         // GET /<table-name>/:id
-        if (!tableConfig?.disabledEndpoints?.includes(OperationType.GET_ONE)) {
+        if (isEndpointEnabled(actionContext, OperationType.GET_ONE)) {
             router.get(itemPath, async (req, res) => {
-                const actionContext: ActionContext = {
-                    db,
-                    table,
-                    tableMetadata,
-                    primaryKeyColumn,
-                    columns,
-                    schema,
-                    tablesMetadataMap,
-                    tableConfig,
-                    logger
-                };
-
                 await getOneAction(req, res, actionContext);
             });
         }
 
         // PATCH /<table-name>/:id
-        if (!tableConfig?.disabledEndpoints?.includes(OperationType.UPDATE)) {
+        if (isEndpointEnabled(actionContext, OperationType.UPDATE)) {
             router.patch(itemPath, async (req, res) => {
-                const actionContext: ActionContext = {
-                    db,
-                    table,
-                    tableMetadata,
-                    primaryKeyColumn,
-                    columns,
-                    schema,
-                    tablesMetadataMap,
-                    tableConfig,
-                    logger
-                };
-
                 await updateAction(req, res, actionContext);
             });
         }
 
         // PUT /<table-name>/:id
-        if (!tableConfig?.disabledEndpoints?.includes(OperationType.REPLACE)) {
+        if (isEndpointEnabled(actionContext, OperationType.REPLACE)) {
             router.put(itemPath, async (req, res) => {
-                const actionContext: ActionContext = {
-                    db,
-                    table,
-                    tableMetadata,
-                    primaryKeyColumn,
-                    columns,
-                    schema,
-                    tablesMetadataMap,
-                    tableConfig,
-                    logger
-                };
-
                 await replaceAction(req, res, actionContext);
             });
         }
 
         // DELETE /<table-name>/:id
-        if (!tableConfig?.disabledEndpoints?.includes(OperationType.DELETE)) {
+        if (isEndpointEnabled(actionContext, OperationType.DELETE)) {
             router.delete(itemPath, async (req, res) => {
-                const actionContext: ActionContext = {
-                    db,
-                    table,
-                    tableMetadata,
-                    primaryKeyColumn,
-                    columns,
-                    schema,
-                    tablesMetadataMap,
-                    tableConfig,
-                    logger
-                };
-
                 await deleteAction(req, res, actionContext);
             });
         }
+
+        // Write routes of read-only resources respond with 405 instead of falling through to 404
+        if (readOnly) {
+            const allowedMethods = isEndpointEnabled(actionContext, OperationType.GET_MANY) ? ['GET'] : [];
+            const methodNotAllowed = (req: express.Request, res: express.Response) => {
+                ErrorHandler.handleMethodNotAllowed(res, allowedMethods, (req as any).requestId);
+            };
+
+            router.post(resourcePath, methodNotAllowed);
+            router.patch(itemPath, methodNotAllowed);
+            router.put(itemPath, methodNotAllowed);
+            router.delete(itemPath, methodNotAllowed);
+        }
+
+        // POST /<view-name>/refresh
+        if (tableConfig?.refreshEndpoint) {
+            if (tableMetadata.kind !== 'materialized_view') {
+                throw new Error(`refreshEndpoint of '${tableMetadata.name}' requires a materialized view`);
+            }
+            if (!tableConfig.hooks?.beforeOperation) {
+                throw new Error(`refreshEndpoint of '${tableMetadata.name}' requires a beforeOperation hook to guard it`);
+            }
+
+            router.post(`${resourcePath}/refresh`, async (req, res) => {
+                await refreshAction(req, res, actionContext);
+            });
+        }
+
+        // GET, PATCH, PUT and DELETE /<table-name>/by/<column>/:value for unique lookup columns
+        tableConfig?.lookupKeys?.forEach(lookupColumn => {
+            const column = tableMetadata.columns.find(candidate => candidate.name === lookupColumn);
+            if (!column?.isUnique) {
+                throw new Error(
+                    `Lookup key '${lookupColumn}' of table '${tableMetadata.name}' must be a column with a unique constraint`
+                );
+            }
+
+            const lookupPath = `${resourcePath}/by/${lookupColumn}/:value`;
+            const lookupContext: ActionContext = {
+                ...actionContext,
+                lookupKey: new PrimaryKey(columns, tableMetadata, idSeparator, [lookupColumn])
+            };
+            const lookupRoutes: Array<[OperationType, 'get' | 'patch' | 'put' | 'delete', ActionHandler]> = [
+                [OperationType.GET_ONE, 'get', getOneAction],
+                [OperationType.UPDATE, 'patch', updateAction],
+                [OperationType.REPLACE, 'put', replaceAction],
+                [OperationType.DELETE, 'delete', deleteAction]
+            ];
+
+            lookupRoutes
+                .filter(([operation]) => isEndpointEnabled(lookupContext, operation))
+                .forEach(([, method, action]) => {
+                    router[method](lookupPath, async (req, res) => {
+                        await action(req, res, lookupContext);
+                    });
+                });
+        });
+    });
+
+    // Nested routes for has_many relations: GET and POST /<table-name>/:id/<relation>
+    // They need the parent's GET_ONE endpoint, and the child's GET_MANY or CREATE endpoint.
+    actionContexts.forEach((parentContext, tableName) => {
+        if (!isEndpointEnabled(parentContext, OperationType.GET_ONE)) return;
+
+        parentContext.tableMetadata.relations
+            .filter(relation => relation.type === 'has_many')
+            .forEach(relation => {
+                const childContext = actionContexts.get(relation.relatedTable);
+                if (!childContext) return;
+
+                const nestedPath = `${resourcePaths.get(tableName)}/:id/${relation.name}`;
+                const withParent = async (req: express.Request, res: express.Response, action: ActionHandler) => {
+                    const parentScope = await resolveParentScope(req, res, parentContext, relation);
+                    if (parentScope) {
+                        await action(req, res, { ...childContext, parentScope });
+                    }
+                };
+
+                logger.debug({
+                    table: tableName,
+                    relation: relation.name,
+                    nestedPath
+                }, 'Setting up nested routes for relation');
+
+                if (isEndpointEnabled(childContext, OperationType.GET_MANY)) {
+                    router.get(nestedPath, async (req, res) => {
+                        await withParent(req, res, getManyAction);
+                    });
+                }
+
+                if (isEndpointEnabled(childContext, OperationType.CREATE)) {
+                    router.post(nestedPath, async (req, res) => {
+                        await withParent(req, res, createAction);
+                    });
+                }
+            });
+    });
+
+    // Link management for many_to_many relations, part of updating the parent and writing the junction:
+    // PUT /<table-name>/:id/<relation> and PUT, DELETE /<table-name>/:id/<relation>/:targetId
+    actionContexts.forEach((parentContext, tableName) => {
+        if (!isEndpointEnabled(parentContext, OperationType.UPDATE)) return;
+
+        parentContext.tableMetadata.relations
+            .filter(relation => relation.type === 'many_to_many')
+            .forEach(relation => {
+                const junctionContext = actionContexts.get(relation.through!.table);
+                if (!junctionContext || !actionContexts.has(relation.relatedTable)) return;
+
+                const canLink = isEndpointEnabled(junctionContext, OperationType.CREATE);
+                const canUnlink = isEndpointEnabled(junctionContext, OperationType.DELETE);
+                const setPath = `${resourcePaths.get(tableName)}/:id/${relation.name}`;
+                const linkPath = `${setPath}/:targetId`;
+
+                if (canLink && canUnlink) {
+                    router.put(setPath, async (req, res) => {
+                        await linkAction(req, res, parentContext, relation, 'replace');
+                    });
+                }
+
+                if (canLink) {
+                    router.put(linkPath, async (req, res) => {
+                        await linkAction(req, res, parentContext, relation, 'link');
+                    });
+                }
+
+                if (canUnlink) {
+                    router.delete(linkPath, async (req, res) => {
+                        await linkAction(req, res, parentContext, relation, 'unlink');
+                    });
+                }
+            });
     });
 
     logger.info({
@@ -1,6 +1,9 @@
 // Main library exports
 export type { DrizzleRestAdapterOptions } from './drizzle-rest-adapter';
 export { createDrizzleRestAdapter } from './drizzle-rest-adapter';
+export type { ColumnRule } from './utils/column-rules';
+export type { NamingStrategy } from './utils/naming';
+export type { CountStrategy } from './utils/query-builder';
 
 // Hook utilities
 export { createHookContext } from './utils/hook-context';
@@ -0,0 +1,195 @@
+import { eq } from 'drizzle-orm';
+import request from 'supertest';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { db } from '@/db/connection';
+import * as schema from '@/db/schema.js';
+import { HookContext } from '@/utils/hook-context';
+
+import {
+    createTestApp,
+    expectSuccessResponse,
+    setupTestDatabase
+} from './test-helpers';
+
+describe('Column Rules', () => {
+    const app = createTestApp({
+        tableOptions: {
+            users: { columns: { phone: { hidden: true } } },
+            posts: { columns: { createdAt: { readOnly: true }, content: { writeOnly: true } } }
+        }
+    });
+    const strictApp = createTestApp({
+        strictQuery: true,
+        tableOptions: { users: { columns: { phone: { hidden: true } } } }
+    });
+
+    let aliceId: number;
+    let postId: number;
+
+    beforeEach(async () => {
+        await setupTestDatabase();
+
+        const [alice] = await db.insert(schema.users).values({ fullName: 'Alice Smith', phone: '123-456-7890' }).returning();
+        aliceId = alice.id;
+
+        const [post] = await db.insert(schema.posts).values({
+            title: 'Drizzle Tips',
+            content: 'Draft notes',
+            userId: alice.id,
+            createdAt: new Date('2024-01-01T00:00:00Z')
+        }).returning();
+        postId = post.id;
+    });
+
+    describe('Hidden columns', () => {
+        it('should not return hidden columns in lists, single records and embeds', async () => {
+            const listRes = await request(app).get('/api/v1/users');
+            expectSuccessResponse(listRes);
+            expect(listRes.body).toEqual([{ id: aliceId, fullName: 'Alice Smith' }]);
+
+            const oneRes = await request(app).get(`/api/v1/users/${aliceId}`);
+            expect(oneRes.body).toEqual({ id: aliceId, fullName: 'Alice Smith' });
+
+            const embedRes = await request(app).get(`/api/v1/posts/${postId}?_embed=user`);
+            expect(embedRes.body.user).toEqual({ id: aliceId, fullName: 'Alice Smith' });
+        });
+
+        it('should embed through hidden foreign keys without returning them', async () => {
+            const hiddenKeyApp = createTestApp({ tableOptions: { posts: { columns: { userId: { hidden: true } } } } });
+            const alice = { id: aliceId, fullName: 'Alice Smith', phone: '123-456-7890' };
+
+            const listRes = await request(hiddenKeyApp).get('/api/v1/posts?_embed=user');
+            expectSuccessResponse(listRes);
+            expect(listRes.body[0].user).toEqual(alice);
+            expect(listRes.body[0]).not.toHaveProperty('userId');
+
+            const fieldsRes = await request(hiddenKeyApp).get('/api/v1/posts?_embed=user&_fields=title,user.fullName');
+            expect(fieldsRes.body).toEqual([{ title: 'Drizzle Tips', user: { fullName: 'Alice Smith' } }]);
+
+            const nestedRes = await request(hiddenKeyApp).get(`/api/v1/users/${aliceId}?_embed=posts.user`);
+            expect(nestedRes.body.posts[0].user).toEqual(alice);
+            expect(nestedRes.body.posts[0]).not.toHaveProperty('userId');
+
+            const patchRes = await request(hiddenKeyApp).patch(`/api/v1/posts/${postId}?_embed=user`).send({ title: 'Drizzle Tricks' });
+            expectSuccessResponse(patchRes);
+            expect(patchRes.body.user).toEqual(alice);
+            expect(patchRes.body).not.toHaveProperty('userId');
+        });
+
+        it('should not filter, sort or select by hidden columns', async () => {
+            const filterRes = await request(app).get('/api/v1/users?phone=000');
+            expect(filterRes.body).toHaveLength(1);
+
+            const relationFilterRes = await request(app).get('/api/v1/posts?user.phone=000');
+            expect(relationFilterRes.body).toHaveLength(1);
+
+            const fieldsRes = await request(app).get('/api/v1/users?_fields=phone');
+            expect(fieldsRes.statusCode).toEqual(400);
+            expect(fieldsRes.body.details).toEqual([{ parameter: '_fields', message: 'unknown field \'phone\'' }]);
+
+            const embedFieldsRes = await request(app).get('/api/v1/posts?_embed=user&_fields=title,user.phone');
+            expect(embedFieldsRes.statusCode).toEqual(400);
+        });
+
+        it('should reject hidden columns in strict query mode', async () => {
+            const res = await request(strictApp).get('/api/v1/users?phone=000&_sort=phone');
+
+            expect(res.statusCode).toEqual(400);
+            expect(res.body.details).toEqual(expect.arrayContaining([
+                expect.objectContaining({ parameter: 'phone' }),
+                { parameter: '_sort', message: 'unknown sort field \'phone\'' }
+            ]));
+        });
+
+        it('should ignore hidden columns in request bodies', async () => {
+            const res = await request(app).patch(`/api/v1/users/${aliceId}`).send({ fullName: 'Alice S.', phone: '000' });
+
+            expectSuccessResponse(res);
+            expect(res.body).toEqual({ id: aliceId, fullName: 'Alice S.' });
+
+            const [user] = await db.select().from(schema.users);
+            expect(user.phone).toEqual('123-456-7890');
+        });
+    });
+
+    describe('Read-only columns', () => {
+        it('should return read-only columns but ignore them in request bodies', async () => {
+            const patchRes = await request(app)
+                .patch(`/api/v1/posts/${postId}`)
+                .send({ title: 'Drizzle Tricks', createdAt: '2030-01-01T00:00:00Z' });
+            expectSuccessResponse(patchRes);
+            expect(patchRes.body.createdAt).toEqual('2024-01-01T00:00:00.000Z');
+
+            const putRes = await request(app)
+                .put(`/api/v1/posts/${postId}`)
+                .send({ title: 'Drizzle Tips', createdAt: '2030-01-01T00:00:00Z' });
+            expect(putRes.body.createdAt).toEqual('2024-01-01T00:00:00.000Z');
+        });
+
+        it('should return the current record when no writable fields are sent', async () => {
+            const hiddenRes = await request(app).patch(`/api/v1/users/${aliceId}`).send({ phone: '000' });
+            expectSuccessResponse(hiddenRes);
+            expect(hiddenRes.body).toEqual({ id: aliceId, fullName: 'Alice Smith' });
+
+            const readOnlyRes = await request(app).patch(`/api/v1/posts/${postId}`).send({ createdAt: '2030-01-01T00:00:00Z' });
+            expectSuccessResponse(readOnlyRes);
+            expect(readOnlyRes.body.createdAt).toEqual('2024-01-01T00:00:00.000Z');
+
+            const readOnlyApp = createTestApp({
+                tableOptions: { users: { columns: { fullName: { readOnly: true }, phone: { readOnly: true } } } }
+            });
+            const putRes = await request(readOnlyApp).put(`/api/v1/users/${aliceId}`).send({ fullName: 'Alice S.' });
+            expectSuccessResponse(putRes);
+            expect(putRes.body).toEqual({ id: aliceId, fullName: 'Alice Smith', phone: '123-456-7890' });
+        });
+
+        it('should pass read-only columns set by hooks', async () => {
+            const beforeOperation = vi.fn(async (context: HookContext) => {
+                context.record.createdAt = new Date('2025-05-05T00:00:00Z');
+            });
+            const hookedApp = createTestApp({
+                tableOptions: { posts: { columns: { createdAt: { readOnly: true } }, hooks: { beforeOperation } } }
+            });
+
+            const res = await request(hookedApp).post('/api/v1/posts').send({ title: 'New', createdAt: '2030-01-01T00:00:00Z' });
+
+            expectSuccessResponse(res, 201);
+            expect(res.body.createdAt).toEqual('2025-05-05T00:00:00.000Z');
+        });
+
+        it('should keep the parent of nested creates when the foreign key is read-only', async () => {
+            const nestedApp = createTestApp({ tableOptions: { posts: { columns: { userId: { readOnly: true } } } } });
+
+            const res = await request(nestedApp).post(`/api/v1/users/${aliceId}/posts`).send({ title: 'Nested' });
+
+            expectSuccessResponse(res, 201);
+            expect(res.body.userId).toEqual(aliceId);
+        });
+    });
+
+    describe('Write-only columns', () => {
+        it('should accept write-only columns but never return them', async () => {
+            const createRes = await request(app).post('/api/v1/posts').send({ title: 'Secret', content: 'hunter2' });
+            expectSuccessResponse(createRes, 201);
+            expect(createRes.body).not.toHaveProperty('content');
+
+            const [stored] = await db.select().from(schema.posts).where(eq(schema.posts.id, createRes.body.id));
+            expect(stored.content).toEqual('hunter2');
+
+            const embedRes = await request(app).get(`/api/v1/users/${aliceId}?_embed=posts`);
+            expect(embedRes.body.posts[0]).not.toHaveProperty('content');
+        });
+
+        it('should not filter by write-only columns', async () => {
+            const res = await request(app).get('/api/v1/posts?content=nothing');
+
+            expect(res.body).toHaveLength(1);
+        });
+    });
+
+    it('should reject rules for unknown columns', () => {
+        expect(() => createTestApp({ tableOptions: { users: { columns: { password: { hidden: true } } } } }))
+            .toThrow('Column rule \'password\' of table \'users\' does not match a column');
+    });
+});
@@ -0,0 +1,117 @@
+import request from 'supertest';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { db } from '@/db/connection';
+import * as schema from '@/db/schema.js';
+import { HookContext, OperationType } from '@/utils/hook-context';
+
+import {
+    apiRequest,
+    createTestApp,
+    expectSuccessResponse,
+    setupTestDatabase
+} from './test-helpers';
+
+describe('Composite Primary Keys', () => {
+    let aliceId: number;
+    let bobId: number;
+
+    const settingValues = async () => {
+        const settings = await db.select().from(schema.userSettings);
+        return settings
+            .map(setting => `${setting.userId}:${setting.key}=${setting.value}`)
+            .sort();
+    };
+
+    beforeEach(async () => {
+        await setupTestDatabase();
+
+        const [alice, bob] = await db.insert(schema.users).values([
+            { fullName: 'Alice Smith', phone: null },
+            { fullName: 'Bob Johnson', phone: null }
+        ]).returning();
+        aliceId = alice.id;
+        bobId = bob.id;
+
+        await db.insert(schema.userSettings).values([
+            { userId: alice.id, key: 'theme', value: 'dark' },
+            { userId: alice.id, key: 'language', value: 'en' },
+            { userId: bob.id, key: 'theme', value: 'light' }
+        ]);
+    });
+
+    it('should get a record by every key column', async () => {
+        const res = await apiRequest.get(`/userSettings/${bobId},theme`);
+
+        expectSuccessResponse(res);
+        expect(res.body).toEqual({ userId: bobId, key: 'theme', value: 'light' });
+    });
+
+    it('should update only the addressed record', async () => {
+        const res = await apiRequest.patch(`/userSettings/${aliceId},theme`, { value: 'solarized' });
+
+        expectSuccessResponse(res);
+        expect(res.body).toEqual({ userId: aliceId, key: 'theme', value: 'solarized' });
+        expect(await settingValues()).toEqual([
+            `${aliceId}:language=en`,
+            `${aliceId}:theme=solarized`,
+            `${bobId}:theme=light`
+        ]);
+    });
+
+    it('should replace only the addressed record', async () => {
+        const res = await apiRequest.put(`/userSettings/${aliceId},language`, {
+            userId: aliceId,
+            key: 'language',
+            value: 'de'
+        });
+
+        expectSuccessResponse(res);
+        expect(await settingValues()).toEqual([
+            `${aliceId}:language=de`,
+            `${aliceId}:theme=dark`,
+            `${bobId}:theme=light`
+        ]);
+    });
+
+    it('should delete only the addressed record', async () => {
+        const res = await apiRequest.delete(`/userSettings/${aliceId},theme`);
+
+        expectSuccessResponse(res, 204);
+        expect(await settingValues()).toEqual([`${aliceId}:language=en`, `${bobId}:theme=light`]);
+    });
+
+    it('should return 400 for ids without a value per key column', async () => {
+        const partial = await apiRequest.get(`/userSettings/${aliceId}`);
+        expect(partial.statusCode).toEqual(400);
+        expect(partial.body.details).toEqual([
+            { parameter: 'id', message: 'expected 2 values separated by \',\' (userId, key)' }
+        ]);
+
+        const extra = await apiRequest.delete(`/userSettings/${aliceId},theme,dark`);
+        expect(extra.statusCode).toEqual(400);
+        expect(await settingValues()).toHaveLength(3);
+    });
+
+    it('should support a custom id separator', async () => {
+        const app = createTestApp({ idSeparator: ':' });
+
+        const res = await request(app).get(`/api/v1/userSettings/${aliceId}:language`);
+
+        expectSuccessResponse(res);
+        expect(res.body.value).toEqual('en');
+    });
+
+    it('should pass composite ids to hooks by column', async () => {
+        const beforeOperation = vi.fn(async (_context: HookContext) => { });
+        const app = createTestApp({ tableOptions: { userSettings: { hooks: { beforeOperation } } } });
+
+        await request(app).delete(`/api/v1/users/${bobId}?_dependent=userSettings`);
+
+        expect(beforeOperation).toHaveBeenCalledWith(expect.objectContaining({
+            operation: OperationType.DELETE,
+            recordId: { userId: bobId, key: 'theme' }
+        }));
+        expect(await settingValues()).toHaveLength(2);
+    });
+});
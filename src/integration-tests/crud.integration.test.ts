@@ -1,7 +1,11 @@
-import { beforeEach,describe, expect, it } from 'vitest';
+import request from 'supertest';
+import { beforeEach,describe, expect, it, vi } from 'vitest';
+
+import { HookContext, OperationType } from '@/utils/hook-context';
 
 import {
     apiRequest,
+    createTestApp,
     createTestUser,
     createTestUsers,
     expectSuccessResponse,
@@ -81,4 +85,42 @@ describe('CRUD Operations', () => {
             expect(updateRes.body.fullName).toEqual('Updated Primary Key Test User');
         });
     });
+
+    describe('Record Id Parsing', () => {
+        it('should reject ids that do not match the primary key type', async () => {
+            const res = await apiRequest.get('/users/abc');
+            expect(res.statusCode).toEqual(400);
+            expect(res.body.details).toEqual([{ parameter: 'id', message: 'expected an integer' }]);
+
+            const outOfRange = await apiRequest.patch('/users/99999999999', { fullName: 'Nobody' });
+            expect(outOfRange.statusCode).toEqual(400);
+            expect(outOfRange.body.details).toEqual([{ parameter: 'id', message: 'integer out of range' }]);
+
+            const nested = await apiRequest.get('/users/1.5/posts');
+            expect(nested.statusCode).toEqual(400);
+        });
+
+        it('should reject invalid ids before running hooks', async () => {
+            const beforeOperation = vi.fn(async (_context: HookContext) => { });
+            const app = createTestApp({ tableOptions: { users: { hooks: { beforeOperation } } } });
+
+            const res = await request(app).delete('/api/v1/users/abc');
+
+            expect(res.statusCode).toEqual(400);
+            expect(beforeOperation).not.toHaveBeenCalled();
+        });
+
+        it('should pass typed ids to hooks', async () => {
+            const createdUser = await createTestUser();
+            const beforeOperation = vi.fn(async (_context: HookContext) => { });
+            const app = createTestApp({ tableOptions: { users: { hooks: { beforeOperation } } } });
+
+            await request(app).get(`/api/v1/users/${createdUser.id}`);
+
+            expect(beforeOperation).toHaveBeenCalledWith(expect.objectContaining({
+                operation: OperationType.GET_ONE,
+                recordId: createdUser.id
+            }));
+        });
+    });
 });
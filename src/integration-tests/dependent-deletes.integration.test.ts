@@ -0,0 +1,142 @@
+import request from 'supertest';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { db } from '@/db/connection';
+import * as schema from '@/db/schema.js';
+import { HookContext, OperationType } from '@/utils/hook-context';
+
+import {
+    apiRequest,
+    createTestApp,
+    expectSuccessResponse,
+    setupTestDatabase
+} from './test-helpers';
+
+describe('Dependent Deletes', () => {
+    let aliceId: number;
+    let postIds: number[];
+
+    const countRows = async () => ({
+        users: (await db.select().from(schema.users)).length,
+        posts: (await db.select().from(schema.posts)).length,
+        comments: (await db.select().from(schema.comments)).length
+    });
+
+    beforeEach(async () => {
+        await setupTestDatabase();
+
+        const [alice, bob] = await db.insert(schema.users).values([
+            { fullName: 'Alice Smith', phone: null },
+            { fullName: 'Bob Johnson', phone: null }
+        ]).returning();
+        aliceId = alice.id;
+
+        const posts = await db.insert(schema.posts).values([
+            { title: 'Alice First', userId: alice.id },
+            { title: 'Alice Second', userId: alice.id },
+            { title: 'Bob Only', userId: bob.id }
+        ]).returning();
+        postIds = posts.map(post => post.id);
+
+        await db.insert(schema.comments).values([
+            { text: 'Nice', postId: posts[0].id, userId: bob.id },
+            { text: 'Thanks', postId: posts[0].id, userId: alice.id },
+            { text: 'Agreed', postId: posts[1].id, userId: bob.id },
+            { text: 'Hello Bob', postId: posts[2].id, userId: alice.id }
+        ]);
+    });
+
+    it('should keep the plain DELETE response without _dependent', async () => {
+        await db.delete(schema.comments);
+
+        const res = await apiRequest.delete(`/posts/${postIds[0]}`);
+
+        expectSuccessResponse(res, 204);
+    });
+
+    it('should delete has_many children and report the counts per table', async () => {
+        const res = await apiRequest.delete(`/posts/${postIds[0]}?_dependent=comments`);
+
+        expectSuccessResponse(res);
+        expect(res.body).toEqual({ deleted: { posts: 1, comments: 2 } });
+        expect(await countRows()).toEqual({ users: 2, posts: 2, comments: 2 });
+    });
+
+    it('should delete grandchildren through dot paths', async () => {
+        const res = await apiRequest.delete(`/users/${aliceId}?_dependent=posts.comments,comments`);
+
+        expectSuccessResponse(res);
+        expect(res.body).toEqual({ deleted: { users: 1, posts: 2, comments: 4 } });
+        expect(await countRows()).toEqual({ users: 1, posts: 1, comments: 0 });
+    });
+
+    it('should roll back every delete when a later step fails', async () => {
+        // Alice's comment on Bob's post still references her, so deleting the user fails
+        const res = await apiRequest.delete(`/users/${aliceId}?_dependent=posts.comments`);
+
+        expect(res.statusCode).toEqual(500);
+        expect(await countRows()).toEqual({ users: 2, posts: 3, comments: 4 });
+    });
+
+    it('should return 404 for a missing record', async () => {
+        const res = await apiRequest.delete('/posts/999?_dependent=comments');
+
+        expect(res.statusCode).toEqual(404);
+    });
+
+    it('should reject paths that are not has_many relations', async () => {
+        const res = await apiRequest.delete(`/posts/${postIds[0]}?_dependent=user,comments.unknown`);
+
+        expect(res.statusCode).toEqual(400);
+        expect(res.body.details).toEqual([
+            { parameter: '_dependent', message: '\'user\' is not a has_many relation' },
+            { parameter: '_dependent', message: 'unknown relation \'comments.unknown\'' }
+        ]);
+        expect(await countRows()).toEqual({ users: 2, posts: 3, comments: 4 });
+    });
+
+    describe('Hooks and endpoint configuration', () => {
+        it('should run the child DELETE hook for every deleted row', async () => {
+            const commentHook = vi.fn(async (_context: HookContext) => { });
+            const app = createTestApp({ tableOptions: { comments: { hooks: { beforeOperation: commentHook } } } });
+
+            const res = await request(app).delete(`/api/v1/posts/${postIds[0]}?_dependent=comments`);
+
+            expectSuccessResponse(res);
+            expect(commentHook).toHaveBeenCalledTimes(2);
+            expect(commentHook).toHaveBeenCalledWith(expect.objectContaining({
+                operation: OperationType.DELETE,
+                table: 'comments'
+            }));
+        });
+
+        it('should deny and roll back the delete when a child hook rejects a row', async () => {
+            const app = createTestApp({
+                tableOptions: {
+                    comments: {
+                        hooks: {
+                            beforeOperation: async (context: HookContext) => {
+                                if (context.operation === OperationType.DELETE) throw new Error('Comments are archived');
+                            }
+                        }
+                    }
+                }
+            });
+
+            const res = await request(app).delete(`/api/v1/posts/${postIds[0]}?_dependent=comments`);
+
+            expect(res.statusCode).toEqual(403);
+            expect(res.body.error).toEqual('Comments are archived');
+            expect(await countRows()).toEqual({ users: 2, posts: 3, comments: 4 });
+        });
+
+        it('should reject children whose DELETE endpoint is disabled', async () => {
+            const app = createTestApp({ tableOptions: { comments: { disabledEndpoints: [OperationType.DELETE] } } });
+
+            const res = await request(app).delete(`/api/v1/posts/${postIds[0]}?_dependent=comments`);
+
+            expect(res.statusCode).toEqual(400);
+            expect(await countRows()).toEqual({ users: 2, posts: 3, comments: 4 });
+        });
+    });
+});
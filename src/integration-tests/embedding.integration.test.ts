@@ -1,4 +1,5 @@
 import { eq } from 'drizzle-orm';
+import request from 'supertest';
 import { beforeEach,describe, expect, it } from 'vitest';
 
 import { db } from '@/db/connection';
@@ -6,8 +7,11 @@ import * as schema from '@/db/schema.js';
 
 import {
     apiRequest,
+    createAuthorsWithComments,
+    createTestApp,
     expectSuccessResponse,
-    setupTestDatabase} from './test-helpers';
+    setupTestDatabase
+} from './test-helpers';
 
 describe('JSON-Server Embedding', () => {
     beforeEach(async () => {
@@ -104,4 +108,416 @@ describe('JSON-Server Embedding', () => {
             expect(postWithoutComments.comments).toHaveLength(0);
         });
     });
+
+    describe('Embedding Across Many Parents', () => {
+        beforeEach(async () => {
+            await createAuthorsWithComments(5, 2);
+        });
+
+        it('should embed the matching author for every post on the page', async () => {
+            const res = await apiRequest.get('/posts?_embed=user');
+
+            expectSuccessResponse(res);
+            expect(res.body).toHaveLength(10);
+            res.body.forEach((post: any) => {
+                expect(post.user).not.toBeNull();
+                expect(post.user.id).toEqual(post.userId);
+                expect(post.title.startsWith(post.user.fullName)).toBe(true);
+            });
+        });
+
+        it('should embed children for every parent on the page', async () => {
+            const res = await apiRequest.get('/users?_embed=posts&_sort=id');
+
+            expectSuccessResponse(res);
+            expect(res.body).toHaveLength(5);
+            res.body.forEach((user: any) => {
+                expect(user.posts.map((post: any) => post.title)).toEqual([
+                    `${user.fullName} Post 1`,
+                    `${user.fullName} Post 2`
+                ]);
+            });
+        });
+
+        it('should embed only the children of the current page', async () => {
+            const res = await apiRequest.get('/posts?_embed=comments,user&_sort=id&_page=2&_per_page=3');
+
+            expectSuccessResponse(res);
+            expect(res.body.map((post: any) => post.id)).toEqual([4, 5, 6]);
+            res.body.forEach((post: any) => {
+                expect(post.comments).toHaveLength(post.userId - 1);
+                post.comments.forEach((comment: any) => expect(comment.postId).toEqual(post.id));
+                expect(post.user.id).toEqual(post.userId);
+            });
+        });
+
+        it('should embed nested relations with dot-paths', async () => {
+            const res = await apiRequest.get('/posts?_embed=comments.user&_sort=id');
+
+            expectSuccessResponse(res);
+            const post = res.body.find((item: any) => item.userId === 3);
+            expect(post.comments).toHaveLength(2);
+            post.comments.forEach((comment: any) => {
+                expect(comment.user.id).toEqual(comment.userId);
+                expect(comment.text.startsWith(comment.user.fullName)).toBe(true);
+            });
+        });
+
+        it('should resolve nested belongs_to paths', async () => {
+            const res = await apiRequest.get('/comments?_embed=post.user');
+
+            expectSuccessResponse(res);
+            expect(res.body.length).toBeGreaterThan(0);
+            res.body.forEach((comment: any) => {
+                expect(comment.post.id).toEqual(comment.postId);
+                expect(comment.post.user.id).toEqual(comment.post.userId);
+            });
+        });
+
+        it('should combine nested and top-level embeds', async () => {
+            const res = await apiRequest.get('/users?_embed=posts.comments.user,posts&_sort=id');
+
+            expectSuccessResponse(res);
+            const lastAuthor = res.body[4];
+            expect(lastAuthor.posts).toHaveLength(2);
+            lastAuthor.posts.forEach((post: any) => {
+                expect(post.comments).toHaveLength(4);
+                expect(post.comments.map((comment: any) => comment.user.fullName).sort()).toEqual([
+                    'Author 1', 'Author 2', 'Author 3', 'Author 4'
+                ]);
+            });
+        });
+
+        it('should trim nested embeds with dotted fields', async () => {
+            const res = await apiRequest.get('/posts?_embed=comments.user&_fields=title,comments.text,comments.user.fullName&_sort=id');
+
+            expectSuccessResponse(res);
+            expect(res.body[1]).toEqual({
+                title: 'Author 2 Post 1',
+                comments: [{ text: 'Author 1 on Author 2 Post 1', user: { fullName: 'Author 1' } }]
+            });
+        });
+
+        it('should return 400 for unknown nested relations', async () => {
+            const res = await apiRequest.get('/posts?_embed=comments.author');
+
+            expect(res.statusCode).toEqual(400);
+            expect(res.body.details).toEqual([
+                { parameter: '_embed', message: "unknown relation 'comments.author'" }
+            ]);
+        });
+
+        it('should return 400 for paths deeper than the maximum depth', async () => {
+            const app = createTestApp({ maxEmbedDepth: 2 });
+
+            const res = await request(app).get('/api/v1/users?_embed=posts.comments.user');
+            expect(res.statusCode).toEqual(400);
+            expect(res.body.details).toEqual([
+                { parameter: '_embed', message: "embed 'posts.comments.user' exceeds the maximum depth of 2" }
+            ]);
+
+            const allowed = await request(app).get('/api/v1/users?_embed=posts.comments');
+            expectSuccessResponse(allowed);
+        });
+    });
+
+    describe('Many-to-Many Embedding', () => {
+        beforeEach(async () => {
+            const [user] = await db.insert(schema.users).values({ fullName: 'John Doe', phone: null }).returning();
+            const posts = await db.insert(schema.posts).values([
+                { title: 'Drizzle Tips', userId: user.id },
+                { title: 'Express Basics', userId: user.id },
+                { title: 'Untagged', userId: user.id }
+            ]).returning();
+            const tags = await db.insert(schema.tags).values([
+                { name: 'typescript' },
+                { name: 'database' },
+                { name: 'backend' }
+            ]).returning();
+
+            await db.insert(schema.postTags).values([
+                { postId: posts[0].id, tagId: tags[1].id },
+                { postId: posts[0].id, tagId: tags[0].id },
+                { postId: posts[1].id, tagId: tags[0].id },
+                { postId: posts[1].id, tagId: tags[2].id }
+            ]);
+        });
+
+        it('should embed related records through the junction table', async () => {
+            const res = await apiRequest.get('/posts?_embed=tags&_sort=id');
+
+            expectSuccessResponse(res);
+            expect(res.body.map((post: any) => post.tags.map((tag: any) => tag.name))).toEqual([
+                ['database', 'typescript'],
+                ['typescript', 'backend'],
+                []
+            ]);
+            expect(res.body[0].tags[0]).toEqual({ id: 2, name: 'database' });
+        });
+
+        it('should embed the inverse side of the relation', async () => {
+            const res = await apiRequest.get('/tags?_embed=posts&_sort=id');
+
+            expectSuccessResponse(res);
+            expect(res.body.map((tag: any) => tag.posts.map((post: any) => post.title))).toEqual([
+                ['Drizzle Tips', 'Express Basics'],
+                ['Drizzle Tips'],
+                ['Express Basics']
+            ]);
+        });
+
+        it('should sort and limit related records per parent', async () => {
+            const res = await apiRequest.get('/posts?_embed=tags&_sort=id&tags._sort=name&tags._limit=1');
+
+            expectSuccessResponse(res);
+            expect(res.body.map((post: any) => post.tags.map((tag: any) => tag.name))).toEqual([
+                ['database'],
+                ['backend'],
+                []
+            ]);
+        });
+
+        it('should count related records through the junction table', async () => {
+            const res = await apiRequest.get('/tags?_count=posts&_sort=id');
+
+            expectSuccessResponse(res);
+            expect(res.body.map((tag: any) => tag.postsCount)).toEqual([2, 1, 1]);
+        });
+
+        it('should support nested paths and fields through junction tables', async () => {
+            const res = await apiRequest.get('/tags?_embed=posts.user&_fields=name,posts.title,posts.user.fullName&_sort=id');
+
+            expectSuccessResponse(res);
+            expect(res.body[1]).toEqual({
+                name: 'database',
+                posts: [{ title: 'Drizzle Tips', user: { fullName: 'John Doe' } }]
+            });
+        });
+    });
+
+    describe('Scoped Embed Parameters', () => {
+        beforeEach(async () => {
+            await createAuthorsWithComments(4, 3);
+        });
+
+        it('should sort embedded collections with a scoped _sort', async () => {
+            const res = await apiRequest.get('/users?_embed=posts&_sort=id&posts._sort=-id');
+
+            expectSuccessResponse(res);
+            res.body.forEach((user: any) => {
+                expect(user.posts.map((post: any) => post.title)).toEqual([
+                    `${user.fullName} Post 3`,
+                    `${user.fullName} Post 2`,
+                    `${user.fullName} Post 1`
+                ]);
+            });
+        });
+
+        it('should limit embedded collections per parent', async () => {
+            const res = await apiRequest.get('/users?_embed=posts&_sort=id&posts._sort=-id&posts._limit=2');
+
+            expectSuccessResponse(res);
+            expect(res.body).toHaveLength(4);
+            res.body.forEach((user: any) => {
+                expect(user.posts.map((post: any) => post.title)).toEqual([
+                    `${user.fullName} Post 3`,
+                    `${user.fullName} Post 2`
+                ]);
+            });
+        });
+
+        it('should limit embedded collections of tables without a primary key', async () => {
+            await db.insert(schema.auditLog).values([
+                { action: 'login', userId: 1 },
+                { action: 'logout', userId: 1 },
+                { action: 'login', userId: 2 }
+            ]);
+
+            const res = await apiRequest.get('/users?_embed=auditLog&_sort=id&auditLog._limit=1');
+
+            expectSuccessResponse(res);
+            expect(res.body.map((user: any) => user.auditLog.length)).toEqual([1, 1, 0, 0]);
+        });
+
+        it('should filter embedded collections without filtering the parents', async () => {
+            const res = await apiRequest.get('/posts?_embed=comments&_sort=id&_per_page=20&comments.userId=1');
+
+            expectSuccessResponse(res);
+            expect(res.body).toHaveLength(12);
+            expect(res.headers['x-total-count']).toEqual('12');
+            res.body.forEach((post: any) => {
+                expect(post.comments).toHaveLength(post.userId === 1 ? 0 : 1);
+                post.comments.forEach((comment: any) => expect(comment.userId).toEqual(1));
+            });
+        });
+
+        it('should support filter operators in scoped filters', async () => {
+            const res = await apiRequest.get('/posts?_embed=comments&_sort=id&_per_page=20&comments.text_like=Author 2 on');
+
+            expectSuccessResponse(res);
+            expect(res.body.flatMap((post: any) => post.comments.map((comment: any) => comment.userId)))
+                .toEqual([2, 2, 2, 2, 2, 2]);
+        });
+
+        it('should scope parameters to nested embed paths', async () => {
+            const res = await apiRequest.get('/users?_embed=posts.comments&_sort=id&posts.comments._sort=-userId&posts.comments._limit=1');
+
+            expectSuccessResponse(res);
+            res.body.forEach((user: any) => {
+                expect(user.posts).toHaveLength(3);
+                user.posts.forEach((post: any) => {
+                    expect(post.comments.map((comment: any) => comment.userId)).toEqual(user.id === 1 ? [] : [user.id - 1]);
+                });
+            });
+        });
+
+        it('should ignore an invalid scoped _limit outside strict mode', async () => {
+            const res = await apiRequest.get('/users?_embed=posts&_sort=id&posts._limit=abc');
+
+            expectSuccessResponse(res);
+            expect(res.body[0].posts).toHaveLength(3);
+        });
+
+        it('should apply scoped parameters on GET_ONE', async () => {
+            const res = await apiRequest.get('/users/1?_embed=posts&posts._sort=-id&posts._limit=1');
+
+            expectSuccessResponse(res);
+            expect(res.body.posts.map((post: any) => post.title)).toEqual(['Author 1 Post 3']);
+        });
+
+        it('should reject invalid scoped parameters in strict mode', async () => {
+            const app = createTestApp({ strictQuery: true });
+
+            const res = await request(app).get('/api/v1/users?_embed=posts&posts.views=1&posts._sort=-rank&posts._offset=1');
+            expect(res.statusCode).toEqual(400);
+            expect(res.body.details).toEqual([
+                { parameter: 'posts.views', message: 'unknown filter' },
+                { parameter: 'posts._sort', message: "unknown sort field 'rank'" },
+                { parameter: 'posts._offset', message: 'unknown parameter' }
+            ]);
+
+            const limitRes = await request(app).get('/api/v1/users?_embed=posts&posts._limit=0');
+            expect(limitRes.statusCode).toEqual(400);
+            expect(limitRes.body.details).toEqual([
+                { parameter: 'posts._limit', message: 'expected a positive integer' }
+            ]);
+
+            const belongsToRes = await request(app).get('/api/v1/posts?_embed=user&user._limit=1');
+            expect(belongsToRes.statusCode).toEqual(400);
+            expect(belongsToRes.body.details).toEqual([
+                { parameter: 'user', message: 'scoped parameters require a has_many or many_to_many embed' }
+            ]);
+        });
+    });
+
+    describe('Related Record Counts', () => {
+        beforeEach(async () => {
+            await createAuthorsWithComments(3, 1);
+        });
+
+        it('should add a count field for each counted relation', async () => {
+            const res = await apiRequest.get('/posts?_count=comments&_sort=id');
+
+            expectSuccessResponse(res);
+            expect(res.body.map((post: any) => post.commentsCount)).toEqual([0, 1, 2]);
+            expect(res.body[0]).not.toHaveProperty('comments');
+        });
+
+        it('should narrow counts with scoped filters', async () => {
+            const res = await apiRequest.get('/users?_count=posts,comments&comments.postId_gte=3&_sort=id');
+
+            expectSuccessResponse(res);
+            expect(res.body.map((user: any) => [user.postsCount, user.commentsCount])).toEqual([[1, 1], [1, 1], [1, 0]]);
+        });
+
+        it('should share scoped filters with an embed of the same relation', async () => {
+            const res = await apiRequest.get('/posts?_embed=comments&_count=comments&comments.userId=2&_sort=id');
+
+            expectSuccessResponse(res);
+            res.body.forEach((post: any) => expect(post.commentsCount).toEqual(post.comments.length));
+            expect(res.body.map((post: any) => post.commentsCount)).toEqual([0, 0, 1]);
+        });
+
+        it('should keep count fields when selecting fields', async () => {
+            const res = await apiRequest.get('/posts?_count=comments&_fields=title&_sort=id');
+
+            expectSuccessResponse(res);
+            expect(res.body[2]).toEqual({ title: 'Author 3 Post 1', commentsCount: 2 });
+        });
+
+        it('should return 400 for relations that cannot be counted', async () => {
+            const res = await apiRequest.get('/posts?_count=user,likes');
+
+            expect(res.statusCode).toEqual(400);
+            expect(res.body.details).toEqual([
+                { parameter: '_count', message: "'user' is not a has_many or many_to_many relation" },
+                { parameter: '_count', message: "unknown relation 'likes'" }
+            ]);
+        });
+    });
+
+    describe('Single-Record Embedding', () => {
+        let userId: number;
+        let postId: number;
+
+        beforeEach(async () => {
+            const [user] = await db.insert(schema.users).values({ fullName: 'John Doe', phone: null }).returning();
+            const [post] = await db.insert(schema.posts).values({ title: 'First Post', userId: user.id }).returning();
+            await db.insert(schema.comments).values([
+                { text: 'Great post!', postId: post.id, userId: user.id },
+                { text: 'Thanks', postId: post.id, userId: user.id }
+            ]);
+
+            userId = user.id;
+            postId = post.id;
+        });
+
+        it('should embed relations on GET_ONE', async () => {
+            const res = await apiRequest.get(`/posts/${postId}?_embed=comments.user,user`);
+
+            expectSuccessResponse(res);
+            expect(res.body.user.fullName).toEqual('John Doe');
+            expect(res.body.comments).toHaveLength(2);
+            expect(res.body.comments[0].user.id).toEqual(userId);
+        });
+
+        it('should combine embeds and fields on GET_ONE', async () => {
+            const res = await apiRequest.get(`/posts/${postId}?_embed=user&_fields=title,user.fullName`);
+
+            expectSuccessResponse(res);
+            expect(res.body).toEqual({ title: 'First Post', user: { fullName: 'John Doe' } });
+        });
+
+        it('should embed relations in the CREATE response', async () => {
+            const res = await apiRequest.post('/posts?_embed=user,comments', { title: 'New Post', userId });
+
+            expectSuccessResponse(res, 201);
+            expect(res.body.title).toEqual('New Post');
+            expect(res.body.user).toEqual({ id: userId, fullName: 'John Doe', phone: null });
+            expect(res.body.comments).toEqual([]);
+        });
+
+        it('should embed relations in UPDATE and REPLACE responses', async () => {
+            const patchRes = await apiRequest.patch(`/posts/${postId}?_embed=comments`, { title: 'Updated' });
+
+            expectSuccessResponse(patchRes);
+            expect(patchRes.body.title).toEqual('Updated');
+            expect(patchRes.body.comments).toHaveLength(2);
+
+            const putRes = await apiRequest.put(`/posts/${postId}?_embed=user`, { title: 'Replaced', userId });
+
+            expectSuccessResponse(putRes);
+            expect(putRes.body.user.fullName).toEqual('John Doe');
+        });
+
+        it('should reject invalid embeds before writing', async () => {
+            const res = await apiRequest.post('/posts?_embed=author', { title: 'Never Created', userId });
+
+            expect(res.statusCode).toEqual(400);
+            expect(res.body.details).toEqual([{ parameter: '_embed', message: "unknown relation 'author'" }]);
+
+            const posts = await db.select().from(schema.posts);
+            expect(posts).toHaveLength(1);
+        });
+    });
 });
@@ -0,0 +1,135 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+
+import { db } from '@/db/connection';
+import * as schema from '@/db/schema.js';
+
+import {
+    apiRequest,
+    expectSuccessResponse,
+    setupTestDatabase
+} from './test-helpers';
+
+describe('Sparse Fieldsets', () => {
+    let postId: number;
+
+    beforeEach(async () => {
+        await setupTestDatabase();
+
+        const [user] = await db.insert(schema.users).values({
+            fullName: 'John Doe',
+            phone: '123-456-7890'
+        }).returning();
+
+        const [post] = await db.insert(schema.posts).values([
+            { title: 'First Post', content: 'First content', userId: user.id },
+            { title: 'Second Post', content: 'Second content', userId: user.id }
+        ]).returning();
+        postId = post.id;
+
+        await db.insert(schema.comments).values([
+            { text: 'Great post!', postId: post.id, userId: user.id },
+        ]);
+    });
+
+    describe('GET_MANY', () => {
+        it('should return only the requested columns', async () => {
+            const res = await apiRequest.get('/posts?_fields=id,title');
+
+            expectSuccessResponse(res);
+            expect(res.body).toHaveLength(2);
+            res.body.forEach((post: any) => {
+                expect(Object.keys(post).sort()).toEqual(['id', 'title']);
+            });
+        });
+
+        it('should accept repeated _fields parameters', async () => {
+            const res = await apiRequest.get('/posts?_fields=title&_fields=content');
+
+            expectSuccessResponse(res);
+            expect(Object.keys(res.body[0]).sort()).toEqual(['content', 'title']);
+        });
+
+        it('should not affect X-Total-Count', async () => {
+            const res = await apiRequest.get('/posts?_fields=title&_per_page=1');
+
+            expectSuccessResponse(res);
+            expect(res.body).toHaveLength(1);
+            expect(res.headers['x-total-count']).toEqual('2');
+        });
+
+        it('should keep embeds working when join columns are not requested', async () => {
+            const res = await apiRequest.get('/posts?_fields=title&_embed=user,comments');
+
+            expectSuccessResponse(res);
+            const firstPost = res.body.find((post: any) => post.title === 'First Post');
+            expect(Object.keys(firstPost).sort()).toEqual(['comments', 'title', 'user']);
+            expect(firstPost.user.fullName).toEqual('John Doe');
+            expect(firstPost.comments).toHaveLength(1);
+        });
+
+        it('should trim embedded objects with dotted fields', async () => {
+            const res = await apiRequest.get('/posts?_fields=title,user.fullName,comments.text&_embed=user,comments');
+
+            expectSuccessResponse(res);
+            const firstPost = res.body.find((post: any) => post.title === 'First Post');
+            expect(firstPost).toEqual({
+                title: 'First Post',
+                user: { fullName: 'John Doe' },
+                comments: [{ text: 'Great post!' }]
+            });
+        });
+
+        it('should trim embedded objects while returning every root column', async () => {
+            const res = await apiRequest.get('/posts?_fields=user.fullName&_embed=user');
+
+            expectSuccessResponse(res);
+            expect(res.body[0]).toHaveProperty('content');
+            expect(res.body[0].user).toEqual({ fullName: 'John Doe' });
+        });
+
+        it('should return 400 for unknown columns', async () => {
+            const res = await apiRequest.get('/posts?_fields=title,views');
+
+            expect(res.statusCode).toEqual(400);
+            expect(res.body.details).toEqual([
+                { parameter: '_fields', message: "unknown field 'views'" }
+            ]);
+        });
+
+        it('should return 400 for dotted fields without the matching embed', async () => {
+            const res = await apiRequest.get('/posts?_fields=user.fullName');
+
+            expect(res.statusCode).toEqual(400);
+            expect(res.body.details[0].message).toEqual("field 'user.fullName' requires _embed=user");
+        });
+
+        it('should return 400 for unknown columns of an embedded table', async () => {
+            const res = await apiRequest.get('/posts?_fields=user.email&_embed=user');
+
+            expect(res.statusCode).toEqual(400);
+            expect(res.body.details[0].message).toEqual("unknown field 'user.email'");
+        });
+    });
+
+    describe('GET_ONE', () => {
+        it('should return only the requested columns', async () => {
+            const res = await apiRequest.get(`/posts/${postId}?_fields=title,createdAt`);
+
+            expectSuccessResponse(res);
+            expect(Object.keys(res.body).sort()).toEqual(['createdAt', 'title']);
+            expect(res.body.title).toEqual('First Post');
+        });
+
+        it('should return 400 for unknown columns', async () => {
+            const res = await apiRequest.get(`/posts/${postId}?_fields=views`);
+
+            expect(res.statusCode).toEqual(400);
+        });
+
+        it('should still return 404 for missing records', async () => {
+            const res = await apiRequest.get('/posts/999?_fields=title');
+
+            expect(res.statusCode).toEqual(404);
+        });
+    });
+});
@@ -1,5 +1,8 @@
 import { beforeEach,describe, expect, it } from 'vitest';
 
+import { db } from '@/db/connection';
+import * as schema from '@/db/schema.js';
+
 import {
     apiRequest,
     createFilteringTestData,
@@ -159,5 +162,328 @@ describe('JSON-Server Filtering', () => {
                 expect(expectRangeFilter(res.body, (id) => id >= 2 && id <= 5)).toBe(true);
             });
         });
+
+        describe('Strict Comparison Filtering (_gt and _lt operators)', () => {
+            it('should filter with _gt operator', async () => {
+                const res = await apiRequest.get('/users?id_gt=4');
+                expectFilterResults(res, 2, (users) => users.every((user: any) => user.id > 4));
+            });
+
+            it('should filter with _lt operator', async () => {
+                const res = await apiRequest.get('/users?id_lt=3');
+                expectFilterResults(res, 2, (users) => users.every((user: any) => user.id < 3));
+            });
+
+            it('should filter with _between operator (inclusive)', async () => {
+                const res = await apiRequest.get('/users?id_between=2,4');
+                expectFilterResults(res, 3, (users) => users.every((user: any) => user.id >= 2 && user.id <= 4));
+            });
+        });
+
+        describe('List Filtering (_in and _nin operators)', () => {
+            it('should filter with _in operator', async () => {
+                const res = await apiRequest.get('/users?fullName_in=Alice Smith,Bob Johnson');
+                expectFilterResults(res, 2, (users) =>
+                    users.map((user: any) => user.fullName).sort().join(',') === 'Alice Smith,Bob Johnson'
+                );
+            });
+
+            it('should filter with _nin operator', async () => {
+                const res = await apiRequest.get('/users?id_nin=1,2&id_nin=3');
+                expectFilterResults(res, 3, (users) => users.every((user: any) => user.id > 3));
+            });
+        });
+
+        describe('Pattern Filtering (_ilike, _startswith, _endswith, _regex operators)', () => {
+            it('should be case-insensitive for _ilike search', async () => {
+                const res = await apiRequest.get('/users?fullName_ilike=alice');
+                expectFilterResults(res, 2, (users) =>
+                    users.every((user: any) => user.fullName.includes('Alice'))
+                );
+            });
+
+            it('should filter with _startswith operator', async () => {
+                const res = await apiRequest.get('/users?fullName_startswith=Ali');
+                expectFilterResults(res, 2);
+            });
+
+            it('should filter with _endswith operator', async () => {
+                const res = await apiRequest.get('/users?fullName_endswith=son');
+                expectFilterResults(res, 2, (users) =>
+                    users.every((user: any) => user.fullName.endsWith('son'))
+                );
+            });
+
+            it('should filter with _regex operator', async () => {
+                const res = await apiRequest.get(`/users?fullName_regex=${encodeURIComponent('^(Bob|Eve) ')}`);
+                expectFilterResults(res, 2, (users) =>
+                    users.map((user: any) => user.fullName).sort().join(',') === 'Bob Johnson,Eve Davis'
+                );
+            });
+
+            it('should reject pattern operators on non-text columns with 400', async () => {
+                const res = await apiRequest.get('/users?id_like=1&id_regex=^1');
+                expect(res.statusCode).toEqual(400);
+                expect(res.body.details).toEqual([
+                    { parameter: 'id_like', message: '_like requires a text column' },
+                    { parameter: 'id_regex', message: '_regex requires a text column' }
+                ]);
+            });
+
+            it('should reject nested query values with 400', async () => {
+                const res = await apiRequest.get('/users?fullName[a]=b&fullName_regex[a]=b');
+                expect(res.statusCode).toEqual(400);
+                expect(res.body.details).toEqual([
+                    { parameter: 'fullName', message: 'expected a value or a list of values' },
+                    { parameter: 'fullName_regex', message: 'expected a value or a list of values' }
+                ]);
+            });
+
+            it('should reject invalid regular expressions with 400', async () => {
+                const res = await apiRequest.get(`/users?fullName_regex=${encodeURIComponent('(')}`);
+                expect(res.statusCode).toEqual(400);
+                expect(res.body.error).toEqual('Invalid regular expression');
+            });
+
+            it('should match wildcards literally in _startswith and _endswith', async () => {
+                await createTestUser({ fullName: '100% Bob_', phone: null });
+
+                const startsRes = await apiRequest.get(`/users?fullName_startswith=${encodeURIComponent('100%')}`);
+                expectFilterResults(startsRes, 1, (users) => users[0].fullName === '100% Bob_');
+
+                const wildcardRes = await apiRequest.get(`/users?fullName_startswith=${encodeURIComponent('%')}`);
+                expectFilterResults(wildcardRes, 0);
+
+                const endsRes = await apiRequest.get('/users?fullName_endswith=_');
+                expectFilterResults(endsRes, 1, (users) => users[0].fullName === '100% Bob_');
+            });
+        });
+
+        describe('Null Filtering (_null operator)', () => {
+            beforeEach(async () => {
+                await createTestUser({ fullName: 'No Phone', phone: null });
+            });
+
+            it('should match null values with _null=true', async () => {
+                const res = await apiRequest.get('/users?phone_null=true');
+                expectFilterResults(res, 1, (users) => users[0].fullName === 'No Phone');
+            });
+
+            it('should match non-null values with _null=false', async () => {
+                const res = await apiRequest.get('/users?phone_null=false');
+                expectFilterResults(res, 6, (users) => users.every((user: any) => user.phone !== null));
+            });
+        });
+
+        describe('Condition Groups (_where parameter)', () => {
+            const where = (tree: unknown) => `_where=${encodeURIComponent(JSON.stringify(tree))}`;
+
+            it('should combine conditions with OR', async () => {
+                const res = await apiRequest.get(`/users?${where({
+                    or: [{ fullName: 'Bob Johnson' }, { phone: '567-890-1234' }]
+                })}`);
+                expectFilterResults(res, 2, (users) =>
+                    users.map((user: any) => user.fullName).sort().join(',') === 'Bob Johnson,Eve Davis'
+                );
+            });
+
+            it('should support nested AND/OR/NOT groups', async () => {
+                const res = await apiRequest.get(`/users?${where({
+                    and: [
+                        { or: [{ fullName_like: 'Alice' }, { fullName_like: 'Bob' }] },
+                        { not: { fullName: 'Alice Wonder' } }
+                    ]
+                })}`);
+                expectFilterResults(res, 2, (users) =>
+                    users.map((user: any) => user.fullName).sort().join(',') === 'Alice Smith,Bob Johnson'
+                );
+            });
+
+            it('should combine _where with plain filters using AND', async () => {
+                const res = await apiRequest.get(`/users?fullName_like=Alice&${where({
+                    or: [{ id: 1 }, { id: 2 }]
+                })}`);
+                expectFilterResults(res, 1, (users) => users[0].fullName === 'Alice Smith');
+                expect(res.headers['x-total-count']).toEqual('1');
+            });
+
+            it('should reject malformed JSON', async () => {
+                const res = await apiRequest.get('/users?_where={or:');
+                expect(res.statusCode).toEqual(400);
+                expect(res.body.details).toEqual([{ parameter: '_where', message: '_where must be valid JSON' }]);
+            });
+
+            it('should reject groups mixed with filter keys', async () => {
+                const res = await apiRequest.get(`/users?${where({ fullName: 'Bob Johnson', or: [] })}`);
+                expect(res.statusCode).toEqual(400);
+            });
+
+            it('should reject trees that exceed the depth limit', async () => {
+                let tree: any = { fullName: 'Alice Smith' };
+                for (let i = 0; i < 6; i++) {
+                    tree = { not: tree };
+                }
+
+                const res = await apiRequest.get(`/users?${where(tree)}`);
+                expect(res.statusCode).toEqual(400);
+            });
+
+            it('should reject trees that exceed the node limit', async () => {
+                const tree = { or: Array.from({ length: 60 }, (_, i) => ({ id: i + 1 })) };
+
+                const res = await apiRequest.get(`/users?${where(tree)}`);
+                expect(res.statusCode).toEqual(400);
+            });
+
+            it('should reject conditions with too many filters', async () => {
+                const leaf = Object.fromEntries(Array.from({ length: 11 }, (_, i) => [`filter${i}`, i]));
+
+                const res = await apiRequest.get(`/users?${where({ not: leaf })}`);
+                expect(res.statusCode).toEqual(400);
+                expect(res.body.details[0].message).toEqual('_where conditions are limited to 10 filters each');
+            });
+
+            it('should reject unknown filter keys outside strict mode', async () => {
+                const orRes = await apiRequest.get(`/users?${where({ or: [{ fullName: 'Bob Johnson' }, { typo: 1 }] })}`);
+                expect(orRes.statusCode).toEqual(400);
+                expect(orRes.body.details).toEqual([{ parameter: '_where.typo', message: 'unknown filter' }]);
+
+                const notRes = await apiRequest.get(`/users?${where({ not: { typo: 1 } })}`);
+                expect(notRes.statusCode).toEqual(400);
+            });
+        });
+
+        describe('Type-aware Value Coercion', () => {
+            beforeEach(async () => {
+                await db.insert(schema.posts).values([
+                    { title: 'Old Post', createdAt: new Date('2024-01-01T00:00:00Z') },
+                    { title: 'New Post', createdAt: new Date('2025-06-01T00:00:00Z') },
+                ]);
+            });
+
+            it('should coerce ISO timestamps for timestamp columns', async () => {
+                const res = await apiRequest.get('/posts?createdAt_gte=2025-01-01T00:00:00Z');
+                expectFilterResults(res, 1, (posts) => posts[0].title === 'New Post');
+            });
+
+            it('should coerce bounds of _between', async () => {
+                const res = await apiRequest.get('/posts?createdAt_between=2023-12-31,2024-01-02');
+                expectFilterResults(res, 1, (posts) => posts[0].title === 'Old Post');
+            });
+
+            it('should reject values that are not timestamps with 400', async () => {
+                const res = await apiRequest.get('/posts?createdAt_gte=yesterday');
+                expect(res.statusCode).toEqual(400);
+                expect(res.body.details).toEqual([
+                    expect.objectContaining({ parameter: 'createdAt_gte' })
+                ]);
+            });
+
+            it('should reject non-integer values for integer columns with 400', async () => {
+                const res = await apiRequest.get('/users?id=abc');
+                expect(res.statusCode).toEqual(400);
+                expect(res.body.details).toEqual([
+                    expect.objectContaining({ parameter: 'id', message: 'expected an integer' })
+                ]);
+            });
+
+            it('should report every invalid parameter', async () => {
+                const res = await apiRequest.get('/users?id_gt=one&id_in=1,two&phone_null=maybe');
+                expect(res.statusCode).toEqual(400);
+                expect(res.body.details.map((issue: any) => issue.parameter).sort())
+                    .toEqual(['id_gt', 'id_in', 'phone_null']);
+            });
+
+            it('should name the _where leaf that failed coercion', async () => {
+                const tree = encodeURIComponent(JSON.stringify({ or: [{ id: 1 }, { id_lt: 'x' }] }));
+                const res = await apiRequest.get(`/users?_where=${tree}`);
+                expect(res.statusCode).toEqual(400);
+                expect(res.body.details[0].parameter).toEqual('_where.id_lt');
+            });
+        });
+
+        it('should apply new operators to X-Total-Count', async () => {
+            const res = await apiRequest.get('/users?id_gt=1&_per_page=2');
+            expectSuccessResponse(res);
+            expect(res.body).toHaveLength(2);
+            expect(res.headers['x-total-count']).toEqual('5');
+        });
+    });
+
+    describe('Relation Path Filtering', () => {
+        beforeEach(async () => {
+            const [alice, bob] = await createFilteringTestData();
+            const posts = await db.insert(schema.posts).values([
+                { title: 'Alice Post', userId: alice.id },
+                { title: 'Bob Post', userId: bob.id },
+                { title: 'Anonymous Post', userId: null }
+            ]).returning();
+
+            await db.insert(schema.comments).values([
+                { text: 'Bob on Alice', postId: posts[0].id, userId: bob.id },
+                { text: 'Alice on Bob', postId: posts[1].id, userId: alice.id },
+                { text: 'Bob on Bob', postId: posts[1].id, userId: bob.id }
+            ]);
+        });
+
+        it('should filter by a column of a belongs_to relation', async () => {
+            const res = await apiRequest.get('/posts?user.fullName_like=Alice');
+            expectSuccessResponse(res);
+            expect(res.body.map((post: any) => post.title)).toEqual(['Alice Post']);
+            expect(res.headers['x-total-count']).toEqual('1');
+        });
+
+        it('should follow nested belongs_to paths', async () => {
+            const res = await apiRequest.get('/comments?post.user.fullName=Bob Johnson&_sort=id');
+            expectSuccessResponse(res);
+            expect(res.body.map((comment: any) => comment.text)).toEqual(['Alice on Bob', 'Bob on Bob']);
+        });
+
+        it('should combine relation filters with column filters', async () => {
+            const res = await apiRequest.get('/comments?post.title=Bob Post&user.fullName_startswith=Bob');
+            expectSuccessResponse(res);
+            expect(res.body.map((comment: any) => comment.text)).toEqual(['Bob on Bob']);
+        });
+
+        it('should treat filters on belongs_to embeds as relation filters', async () => {
+            const res = await apiRequest.get('/posts?_embed=user&user.fullName=Bob Johnson');
+            expectSuccessResponse(res);
+            expect(res.body).toHaveLength(1);
+            expect(res.body[0].user.fullName).toEqual('Bob Johnson');
+        });
+
+        it('should filter by the existence of related records', async () => {
+            const withComments = await apiRequest.get('/posts?comments._exists=true&_sort=id');
+            expectSuccessResponse(withComments);
+            expect(withComments.body.map((post: any) => post.title)).toEqual(['Alice Post', 'Bob Post']);
+
+            const withoutPosts = await apiRequest.get('/users?posts._exists=false&_sort=id');
+            expectSuccessResponse(withoutPosts);
+            expect(withoutPosts.body.map((user: any) => user.fullName)).toEqual([
+                'Charlie Brown', 'David Wilson', 'Eve Davis', 'Alice Wonder'
+            ]);
+            expect(withoutPosts.headers['x-total-count']).toEqual('4');
+        });
+
+        it('should keep _exists on the root list when the relation is embedded', async () => {
+            const res = await apiRequest.get('/posts?_embed=comments&comments._exists=false');
+            expectSuccessResponse(res);
+            expect(res.body).toEqual([expect.objectContaining({ title: 'Anonymous Post', comments: [] })]);
+        });
+
+        it('should ignore unknown relation paths outside strict mode', async () => {
+            const res = await apiRequest.get('/posts?author.fullName=Alice Smith');
+            expectSuccessResponse(res);
+            expect(res.body).toHaveLength(3);
+        });
+
+        it('should reject values that cannot be coerced with 400', async () => {
+            const res = await apiRequest.get('/posts?user.id=abc&comments._exists=maybe');
+            expect(res.statusCode).toEqual(400);
+            expect(res.body.details).toEqual([
+                { parameter: 'user.id', message: 'expected an integer' },
+                { parameter: 'comments._exists', message: 'expected true or false' }
+            ]);
+        });
     });
 });
@@ -0,0 +1,257 @@
+import { eq } from 'drizzle-orm';
+import request from 'supertest';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { db } from '@/db/connection';
+import * as schema from '@/db/schema.js';
+import { HookContext, OperationType } from '@/utils/hook-context';
+
+import {
+    apiRequest,
+    createTestApp,
+    expectSuccessResponse,
+    setupTestDatabase
+} from './test-helpers';
+
+describe('Many-to-Many Links', () => {
+    let postId: number;
+    let tagIds: number[];
+
+    const linkedTagIds = async () => {
+        const links = await db.select().from(schema.postTags).where(eq(schema.postTags.postId, postId));
+        return links.map(link => link.tagId).sort();
+    };
+
+    beforeEach(async () => {
+        await setupTestDatabase();
+
+        const [user] = await db.insert(schema.users).values({ fullName: 'John Doe', phone: null }).returning();
+        const [post] = await db.insert(schema.posts).values({ title: 'Drizzle Tips', userId: user.id }).returning();
+        const tags = await db.insert(schema.tags).values([
+            { name: 'typescript' },
+            { name: 'database' },
+            { name: 'backend' }
+        ]).returning();
+
+        postId = post.id;
+        tagIds = tags.map(tag => tag.id);
+
+        await db.insert(schema.postTags).values({ postId, tagId: tagIds[0] });
+    });
+
+    describe('PUT /<table>/:id/<relation>/:targetId', () => {
+        it('should link a related record', async () => {
+            const res = await apiRequest.put(`/posts/${postId}/tags/${tagIds[1]}`);
+
+            expectSuccessResponse(res, 204);
+            expect(await linkedTagIds()).toEqual([tagIds[0], tagIds[1]]);
+        });
+
+        it('should be idempotent', async () => {
+            await apiRequest.put(`/posts/${postId}/tags/${tagIds[0]}`);
+            const res = await apiRequest.put(`/posts/${postId}/tags/${tagIds[0]}`);
+
+            expectSuccessResponse(res, 204);
+            expect(await linkedTagIds()).toEqual([tagIds[0]]);
+        });
+
+        it('should link once for concurrent requests', async () => {
+            const responses = await Promise.all([
+                apiRequest.put(`/posts/${postId}/tags/${tagIds[1]}`),
+                apiRequest.put(`/posts/${postId}/tags/${tagIds[1]}`)
+            ]);
+
+            responses.forEach(res => expectSuccessResponse(res, 204));
+            expect(await linkedTagIds()).toEqual([tagIds[0], tagIds[1]]);
+        });
+
+        it('should return 404 for a missing parent or related record', async () => {
+            const missingParent = await apiRequest.put(`/posts/999/tags/${tagIds[1]}`);
+            expect(missingParent.statusCode).toEqual(404);
+
+            const missingTarget = await apiRequest.put(`/posts/${postId}/tags/999`);
+            expect(missingTarget.statusCode).toEqual(404);
+            expect(await linkedTagIds()).toEqual([tagIds[0]]);
+        });
+
+        it('should return 400 for a malformed related id', async () => {
+            const res = await apiRequest.put(`/posts/${postId}/tags/typescript`);
+
+            expect(res.statusCode).toEqual(400);
+            expect(res.body.details).toEqual([{ parameter: 'targetId', message: 'expected an integer' }]);
+        });
+
+        it('should be reflected in embeds of both sides', async () => {
+            await apiRequest.put(`/posts/${postId}/tags/${tagIds[2]}`);
+
+            const postRes = await apiRequest.get(`/posts/${postId}?_embed=tags`);
+            expect(postRes.body.tags.map((tag: any) => tag.name)).toEqual(['typescript', 'backend']);
+
+            const tagRes = await apiRequest.get(`/tags/${tagIds[2]}?_embed=posts`);
+            expect(tagRes.body.posts.map((post: any) => post.id)).toEqual([postId]);
+        });
+    });
+
+    describe('DELETE /<table>/:id/<relation>/:targetId', () => {
+        it('should unlink a related record without deleting it', async () => {
+            const res = await apiRequest.delete(`/posts/${postId}/tags/${tagIds[0]}`);
+
+            expectSuccessResponse(res, 204);
+            expect(await linkedTagIds()).toEqual([]);
+            expect(await db.select().from(schema.tags)).toHaveLength(3);
+        });
+
+        it('should be idempotent', async () => {
+            await apiRequest.delete(`/posts/${postId}/tags/${tagIds[0]}`);
+            const res = await apiRequest.delete(`/posts/${postId}/tags/${tagIds[0]}`);
+
+            expectSuccessResponse(res, 204);
+        });
+    });
+
+    describe('PUT /<table>/:id/<relation>', () => {
+        it('should replace the whole set of links', async () => {
+            const res = await apiRequest.put(`/posts/${postId}/tags`, [tagIds[1], tagIds[2]]);
+
+            expectSuccessResponse(res, 204);
+            expect(await linkedTagIds()).toEqual([tagIds[1], tagIds[2]]);
+        });
+
+        it('should keep existing junction rows for ids that stay linked', async () => {
+            const [before] = await db.select().from(schema.postTags);
+
+            await apiRequest.put(`/posts/${postId}/tags`, [tagIds[0], tagIds[1]]);
+            await apiRequest.put(`/posts/${postId}/tags`, [tagIds[0], tagIds[1]]);
+
+            const links = await db.select().from(schema.postTags);
+            expect(links).toHaveLength(2);
+            expect(links).toContainEqual(before);
+        });
+
+        it('should clear all links with an empty array', async () => {
+            const res = await apiRequest.put(`/posts/${postId}/tags`, []);
+
+            expectSuccessResponse(res, 204);
+            expect(await linkedTagIds()).toEqual([]);
+        });
+
+        it('should roll back when a related record does not exist', async () => {
+            const res = await apiRequest.put(`/posts/${postId}/tags`, [tagIds[1], 999]);
+
+            expect(res.statusCode).toEqual(404);
+            expect(await linkedTagIds()).toEqual([tagIds[0]]);
+        });
+
+        it('should return 400 when the body is not an array of ids', async () => {
+            const res = await apiRequest.put(`/posts/${postId}/tags`, { tags: [tagIds[1]] });
+
+            expect(res.statusCode).toEqual(400);
+        });
+    });
+
+    describe('Hooks and endpoint configuration', () => {
+        it('should run the parent UPDATE hook before changing links', async () => {
+            const app = createTestApp({
+                tableOptions: {
+                    posts: {
+                        hooks: {
+                            beforeOperation: async (context: HookContext) => {
+                                if (context.operation === OperationType.UPDATE) throw new Error('Read-only post');
+                            }
+                        }
+                    }
+                }
+            });
+
+            const res = await request(app).put(`/api/v1/posts/${postId}/tags/${tagIds[1]}`);
+            expect(res.statusCode).toEqual(403);
+            expect(await linkedTagIds()).toEqual([tagIds[0]]);
+        });
+
+        it('should run the junction table hooks for every added and removed link', async () => {
+            const operations: string[] = [];
+            const app = createTestApp({
+                tableOptions: {
+                    postTags: {
+                        hooks: {
+                            beforeOperation: async (context: HookContext) => {
+                                operations.push(`${context.operation} ${context.record?.tagId ?? context.recordId}`);
+                            },
+                            afterOperation: async (context: HookContext, result: any) => {
+                                operations.push(`after ${context.operation}`);
+                                return result;
+                            }
+                        }
+                    }
+                }
+            });
+            const [existingLink] = await db.select().from(schema.postTags);
+
+            const res = await request(app).put(`/api/v1/posts/${postId}/tags`).send([tagIds[1], tagIds[2]]);
+
+            expectSuccessResponse(res, 204);
+            expect(operations).toEqual([
+                `DELETE ${existingLink.id}`,
+                `CREATE ${tagIds[1]}`,
+                `CREATE ${tagIds[2]}`,
+                'after DELETE',
+                'after CREATE',
+                'after CREATE'
+            ]);
+        });
+
+        it('should roll back when a junction hook rejects a link', async () => {
+            const app = createTestApp({
+                tableOptions: {
+                    postTags: {
+                        hooks: {
+                            beforeOperation: async (context: HookContext) => {
+                                if (context.record?.tagId === tagIds[2]) throw new Error('Tag is locked');
+                            }
+                        }
+                    }
+                }
+            });
+
+            const res = await request(app).put(`/api/v1/posts/${postId}/tags`).send([tagIds[1], tagIds[2]]);
+
+            expect(res.statusCode).toEqual(403);
+            expect(res.body.error).toEqual('Tag is locked');
+            expect(await linkedTagIds()).toEqual([tagIds[0]]);
+        });
+
+        it('should run the parent afterOperation hook', async () => {
+            const afterOperation = vi.fn(async (_context: HookContext, result: any) => result);
+            const app = createTestApp({ tableOptions: { posts: { hooks: { afterOperation } } } });
+
+            await request(app).put(`/api/v1/posts/${postId}/tags/${tagIds[1]}`);
+
+            expect(afterOperation).toHaveBeenCalledWith(
+                expect.objectContaining({ operation: OperationType.UPDATE, recordId: postId }),
+                expect.objectContaining({ id: postId })
+            );
+        });
+
+        it('should only register link routes for the enabled junction endpoints', async () => {
+            const noCreateApp = createTestApp({ tableOptions: { postTags: { disabledEndpoints: [OperationType.CREATE] } } });
+            expect((await request(noCreateApp).put(`/api/v1/posts/${postId}/tags/${tagIds[1]}`)).statusCode).toEqual(404);
+            expect((await request(noCreateApp).put(`/api/v1/posts/${postId}/tags`).send([])).statusCode).toEqual(404);
+            expectSuccessResponse(await request(noCreateApp).delete(`/api/v1/posts/${postId}/tags/${tagIds[0]}`), 204);
+
+            await db.insert(schema.postTags).values({ postId, tagId: tagIds[0] });
+
+            const noDeleteApp = createTestApp({ tableOptions: { postTags: { disabledEndpoints: [OperationType.DELETE] } } });
+            expect((await request(noDeleteApp).delete(`/api/v1/posts/${postId}/tags/${tagIds[0]}`)).statusCode).toEqual(404);
+            expect((await request(noDeleteApp).put(`/api/v1/posts/${postId}/tags`).send([])).statusCode).toEqual(404);
+            expect(await linkedTagIds()).toEqual([tagIds[0]]);
+        });
+
+        it('should not register link routes when UPDATE is disabled for the parent', async () => {
+            const app = createTestApp({ tableOptions: { posts: { disabledEndpoints: [OperationType.UPDATE] } } });
+
+            const res = await request(app).put(`/api/v1/posts/${postId}/tags/${tagIds[1]}`);
+            expect(res.statusCode).toEqual(404);
+            expect(await linkedTagIds()).toEqual([tagIds[0]]);
+        });
+    });
+});
@@ -0,0 +1,119 @@
+import request from 'supertest';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { db } from '@/db/connection';
+import * as schema from '@/db/schema.js';
+import { HookContext, OperationType } from '@/utils/hook-context';
+
+import {
+    createTestApp,
+    expectSuccessResponse,
+    setupTestDatabase
+} from './test-helpers';
+
+describe('Lookup Keys', () => {
+    const app = createTestApp({ tableOptions: { tags: { lookupKeys: ['name'] } } });
+    const lookup = (path: string) => `/api/v1/tags/by/name/${path}`;
+
+    let tagIds: number[];
+
+    const tagNames = async () => (await db.select().from(schema.tags)).map(tag => tag.name).sort();
+
+    beforeEach(async () => {
+        await setupTestDatabase();
+
+        const tags = await db.insert(schema.tags).values([
+            { name: 'typescript' },
+            { name: 'database' }
+        ]).returning();
+        tagIds = tags.map(tag => tag.id);
+    });
+
+    it('should get a record by a unique column', async () => {
+        const res = await request(app).get(lookup('database'));
+
+        expectSuccessResponse(res);
+        expect(res.body).toEqual({ id: tagIds[1], name: 'database' });
+    });
+
+    it('should accept the item query parameters', async () => {
+        const [post] = await db.insert(schema.posts).values({ title: 'Drizzle Tips' }).returning();
+        await db.insert(schema.postTags).values({ postId: post.id, tagId: tagIds[0] });
+
+        const res = await request(app).get(`${lookup('typescript')}?_embed=posts&_fields=name,posts.title`);
+
+        expectSuccessResponse(res);
+        expect(res.body).toEqual({ name: 'typescript', posts: [{ title: 'Drizzle Tips' }] });
+    });
+
+    it('should update, replace and delete by a unique column', async () => {
+        const patchRes = await request(app).patch(lookup('typescript')).send({ name: 'ts' });
+        expectSuccessResponse(patchRes);
+        expect(patchRes.body).toEqual({ id: tagIds[0], name: 'ts' });
+
+        const putRes = await request(app).put(lookup('ts')).send({ name: 'typescript' });
+        expectSuccessResponse(putRes);
+
+        const deleteRes = await request(app).delete(lookup('database'));
+        expectSuccessResponse(deleteRes, 204);
+        expect(await tagNames()).toEqual(['typescript']);
+    });
+
+    it('should return 404 when no record has the value', async () => {
+        const res = await request(app).patch(lookup('missing')).send({ name: 'found' });
+
+        expect(res.statusCode).toEqual(404);
+        expect(await tagNames()).toEqual(['database', 'typescript']);
+    });
+
+    it('should pass the primary key to hooks', async () => {
+        const beforeOperation = vi.fn(async (_context: HookContext) => { });
+        const hookedApp = createTestApp({ tableOptions: { tags: { lookupKeys: ['name'], hooks: { beforeOperation } } } });
+
+        await request(hookedApp).delete(lookup('typescript'));
+
+        expect(beforeOperation).toHaveBeenCalledWith(expect.objectContaining({
+            operation: OperationType.DELETE,
+            recordId: tagIds[0]
+        }));
+    });
+
+    it('should let hooks deny a request whether or not the value exists', async () => {
+        const beforeOperation = vi.fn(async (_context: HookContext) => {
+            throw new Error('Access denied');
+        });
+        const hookedApp = createTestApp({ tableOptions: { tags: { lookupKeys: ['name'], hooks: { beforeOperation } } } });
+
+        const existingRes = await request(hookedApp).get(lookup('typescript'));
+        const missingRes = await request(hookedApp).get(lookup('missing'));
+
+        expect(existingRes.statusCode).toEqual(403);
+        expect(missingRes.statusCode).toEqual(403);
+        expect(missingRes.body.error).toEqual(existingRes.body.error);
+        expect(beforeOperation).toHaveBeenLastCalledWith(expect.objectContaining({ recordId: undefined }));
+    });
+
+    it('should follow the disabled endpoints of the table', async () => {
+        const readOnlyApp = createTestApp({
+            tableOptions: { tags: { lookupKeys: ['name'], disabledEndpoints: [OperationType.DELETE] } }
+        });
+
+        const getRes = await request(readOnlyApp).get(lookup('typescript'));
+        expectSuccessResponse(getRes);
+
+        const deleteRes = await request(readOnlyApp).delete(lookup('typescript'));
+        expect(deleteRes.statusCode).toEqual(404);
+        expect(await tagNames()).toEqual(['database', 'typescript']);
+    });
+
+    it('should not register routes for tables without lookup keys', async () => {
+        const res = await request(app).get('/api/v1/users/by/fullName/Alice');
+
+        expect(res.statusCode).toEqual(404);
+    });
+
+    it('should reject lookup keys without a unique constraint', () => {
+        expect(() => createTestApp({ tableOptions: { posts: { lookupKeys: ['title'] } } }))
+            .toThrow('Lookup key \'title\' of table \'posts\' must be a column with a unique constraint');
+    });
+});
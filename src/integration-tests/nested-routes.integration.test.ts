@@ -0,0 +1,164 @@
+import request from 'supertest';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { db } from '@/db/connection';
+import * as schema from '@/db/schema.js';
+import { HookContext, OperationType } from '@/utils/hook-context';
+
+import {
+    apiRequest,
+    createTestApp,
+    expectSuccessResponse,
+    setupTestDatabase
+} from './test-helpers';
+
+describe('Nested Resource Routes', () => {
+    let aliceId: number;
+    let bobId: number;
+
+    beforeEach(async () => {
+        await setupTestDatabase();
+
+        const [alice, bob] = await db.insert(schema.users).values([
+            { fullName: 'Alice Smith', phone: null },
+            { fullName: 'Bob Johnson', phone: null }
+        ]).returning();
+        aliceId = alice.id;
+        bobId = bob.id;
+
+        const posts = await db.insert(schema.posts).values([
+            { title: 'Alice First', userId: alice.id },
+            { title: 'Bob Only', userId: bob.id },
+            { title: 'Alice Second', userId: alice.id }
+        ]).returning();
+
+        await db.insert(schema.comments).values([
+            { text: 'Nice', postId: posts[0].id, userId: bob.id }
+        ]);
+    });
+
+    describe('GET /<table>/:id/<relation>', () => {
+        it('should list only the children of the parent', async () => {
+            const res = await apiRequest.get(`/users/${aliceId}/posts?_sort=id`);
+
+            expectSuccessResponse(res);
+            expect(res.body.map((post: any) => post.title)).toEqual(['Alice First', 'Alice Second']);
+            expect(res.headers['x-total-count']).toEqual('2');
+        });
+
+        it('should accept the normal list parameters', async () => {
+            const res = await apiRequest.get(`/users/${aliceId}/posts?title_like=Second&_embed=comments&_fields=title`);
+
+            expectSuccessResponse(res);
+            expect(res.body).toEqual([{ title: 'Alice Second', comments: [] }]);
+        });
+
+        it('should not widen the scope with a conflicting foreign key filter', async () => {
+            const res = await apiRequest.get(`/users/${aliceId}/posts?userId=${bobId}`);
+
+            expectSuccessResponse(res);
+            expect(res.body).toEqual([]);
+        });
+
+        it('should keep the nested path in Link headers', async () => {
+            const res = await apiRequest.get(`/users/${aliceId}/posts?_per_page=1`);
+
+            expectSuccessResponse(res);
+            expect(res.headers.link).toContain(`/api/v1/users/${aliceId}/posts?_page=2&_per_page=1`);
+        });
+
+        it('should return 404 when the parent does not exist', async () => {
+            const res = await apiRequest.get('/users/999/posts');
+
+            expect(res.statusCode).toEqual(404);
+        });
+    });
+
+    describe('POST /<table>/:id/<relation>', () => {
+        it('should set the foreign key from the parent', async () => {
+            const res = await apiRequest.post(`/users/${bobId}/posts`, { title: 'Bob Second' });
+
+            expectSuccessResponse(res, 201);
+            expect(res.body).toEqual(expect.objectContaining({ title: 'Bob Second', userId: bobId }));
+        });
+
+        it('should override a foreign key from the body', async () => {
+            const res = await apiRequest.post(`/users/${bobId}/posts`, { title: 'Moved', userId: aliceId });
+
+            expectSuccessResponse(res, 201);
+            expect(res.body.userId).toEqual(bobId);
+        });
+
+        it('should return 404 without creating anything when the parent does not exist', async () => {
+            const res = await apiRequest.post('/users/999/posts', { title: 'Orphan' });
+
+            expect(res.statusCode).toEqual(404);
+            expect(await db.select().from(schema.posts)).toHaveLength(3);
+        });
+    });
+
+    describe('Hooks and endpoint configuration', () => {
+        it('should run the parent and child hooks', async () => {
+            const parentHook = vi.fn(async (_context: HookContext) => { });
+            const childHook = vi.fn(async (_context: HookContext) => { });
+            const app = createTestApp({
+                tableOptions: {
+                    users: { hooks: { beforeOperation: parentHook } },
+                    posts: { hooks: { beforeOperation: childHook } }
+                }
+            });
+
+            const res = await request(app).get(`/api/v1/users/${aliceId}/posts`);
+
+            expectSuccessResponse(res);
+            expect(parentHook).toHaveBeenCalledWith(expect.objectContaining({
+                operation: OperationType.GET_ONE,
+                table: 'users',
+                recordId: aliceId
+            }));
+            expect(childHook).toHaveBeenCalledWith(expect.objectContaining({
+                operation: OperationType.GET_MANY,
+                table: 'posts'
+            }));
+        });
+
+        it('should deny access when a parent hook rejects the parent', async () => {
+            const app = createTestApp({
+                tableOptions: {
+                    users: {
+                        hooks: {
+                            beforeOperation: async (context: HookContext) => {
+                                if (context.recordId === bobId) throw new Error('Access denied');
+                            }
+                        }
+                    }
+                }
+            });
+
+            const res = await request(app).post(`/api/v1/users/${bobId}/posts`).send({ title: 'Denied' });
+            expect(res.statusCode).toEqual(403);
+            expect(await db.select().from(schema.posts)).toHaveLength(3);
+
+            const allowed = await request(app).get(`/api/v1/users/${aliceId}/posts`);
+            expectSuccessResponse(allowed);
+        });
+
+        it('should follow the disabled endpoints of both tables', async () => {
+            const app = createTestApp({
+                tableOptions: {
+                    posts: { disabledEndpoints: [OperationType.CREATE] },
+                    comments: { disabledEndpoints: [OperationType.GET_MANY] }
+                }
+            });
+
+            const listRes = await request(app).get(`/api/v1/users/${aliceId}/posts`);
+            expectSuccessResponse(listRes);
+
+            const createRes = await request(app).post(`/api/v1/users/${aliceId}/posts`).send({ title: 'Nope' });
+            expect(createRes.statusCode).toEqual(404);
+
+            const commentsRes = await request(app).get('/api/v1/posts/1/comments');
+            expect(commentsRes.statusCode).toEqual(404);
+        });
+    });
+});
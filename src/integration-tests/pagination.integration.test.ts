@@ -1,7 +1,13 @@
+import { sql } from 'drizzle-orm';
+import request from 'supertest';
 import { beforeEach,describe, expect, it } from 'vitest';
 
+import { db } from '@/db/connection';
+
 import {
     apiRequest,
+    createTestApp,
+    createTestUser,
     createTestUsers,
     expectPaginationHeaders,
     expectSuccessResponse,
@@ -88,4 +94,256 @@ describe('Pagination', () => {
             expect(res.body[2].fullName).toEqual('User 5');
         });
     });
+
+    describe('Count Strategies', () => {
+        beforeEach(async () => {
+            await createTestUsers(15);
+        });
+
+        it('should count matching rows exactly by default', async () => {
+            const res = await apiRequest.get('/users?fullName_like=User 1&_per_page=2');
+
+            expectPaginationHeaders(res, '7'); // User 1, User 10 - User 15
+            expect(res.body).toHaveLength(2);
+        });
+
+        it('should use planner statistics with the estimated strategy', async () => {
+            await db.execute(sql`ANALYZE users`);
+            await createTestUser(); // Not reflected in statistics until the next ANALYZE
+
+            const app = createTestApp({ countStrategy: 'estimated' });
+            const res = await request(app).get('/api/v1/users');
+
+            expectPaginationHeaders(res, '15');
+        });
+
+        it('should count exactly when filtering with the estimated strategy', async () => {
+            const app = createTestApp({ countStrategy: 'estimated' });
+            const res = await request(app).get('/api/v1/users?fullName_like=User 1');
+
+            expectPaginationHeaders(res, '7');
+        });
+
+        it('should omit X-Total-Count with the none strategy', async () => {
+            const app = createTestApp({ countStrategy: 'none' });
+            const res = await request(app).get('/api/v1/users');
+
+            expectSuccessResponse(res);
+            expect(res.body).toHaveLength(10);
+            expect(res.headers).not.toHaveProperty('x-total-count');
+        });
+
+        it('should allow per-table count strategies', async () => {
+            const app = createTestApp({ tableOptions: { users: { countStrategy: 'none' } } });
+
+            const usersRes = await request(app).get('/api/v1/users');
+            expect(usersRes.headers).not.toHaveProperty('x-total-count');
+
+            const postsRes = await request(app).get('/api/v1/posts');
+            expectPaginationHeaders(postsRes, '0');
+        });
+    });
+
+    describe('Cursor Pagination', () => {
+        beforeEach(async () => {
+            await createTestUsers(15);
+        });
+
+        it('should return the first page and a next cursor for an empty _cursor', async () => {
+            const res = await apiRequest.get('/users?_cursor=&_limit=5');
+
+            expectPaginationHeaders(res, '15');
+            expect(res.body.map((user: any) => user.id)).toEqual([1, 2, 3, 4, 5]);
+            expect(res.headers['x-next-cursor']).toBeDefined();
+            expect(res.headers).not.toHaveProperty('x-prev-cursor');
+        });
+
+        it('should cap _limit at the maximum page size', async () => {
+            await createTestUsers(100, 'Extra');
+
+            const res = await apiRequest.get('/users?_cursor=&_limit=1000');
+
+            expectPaginationHeaders(res, '115');
+            expect(res.body).toHaveLength(100);
+            expect(res.headers['x-next-cursor']).toBeDefined();
+        });
+
+        it('should walk every page forward without gaps or duplicates', async () => {
+            const ids: number[] = [];
+            let cursor = '';
+
+            for (let page = 0; page < 4; page++) {
+                const res = await apiRequest.get(`/users?_after=${cursor}&_limit=4`);
+                expectSuccessResponse(res);
+                ids.push(...res.body.map((user: any) => user.id));
+
+                cursor = res.headers['x-next-cursor'];
+                if (!cursor) break;
+            }
+
+            expect(ids).toEqual(Array.from({ length: 15 }, (_, i) => i + 1));
+            expect(cursor).toBeUndefined();
+        });
+
+        it('should page backwards with _before', async () => {
+            const first = await apiRequest.get('/users?_cursor=&_limit=5');
+            const second = await apiRequest.get(`/users?_after=${first.headers['x-next-cursor']}&_limit=5`);
+            expect(second.body.map((user: any) => user.id)).toEqual([6, 7, 8, 9, 10]);
+
+            const back = await apiRequest.get(`/users?_before=${second.headers['x-prev-cursor']}&_limit=5`);
+
+            expectSuccessResponse(back);
+            expect(back.body.map((user: any) => user.id)).toEqual([1, 2, 3, 4, 5]);
+            expect(back.headers['x-next-cursor']).toBeDefined();
+            expect(back.headers).not.toHaveProperty('x-prev-cursor');
+        });
+
+        it('should follow _sort with the primary key as tie-breaker', async () => {
+            await createTestUser({ fullName: 'User 1', phone: null });
+
+            const first = await apiRequest.get('/users?_sort=-fullName&_cursor=&_limit=10');
+            const second = await apiRequest.get(`/users?_sort=-fullName&_after=${first.headers['x-next-cursor']}&_limit=10`);
+
+            const names = [...first.body, ...second.body].map((user: any) => user.fullName);
+            const ids = [...first.body, ...second.body].map((user: any) => user.id);
+            expect(names).toHaveLength(16);
+            expect(new Set(ids).size).toEqual(16);
+            expect(names.slice(-2)).toEqual(['User 1', 'User 1']);
+            expect(ids.slice(-2)).toEqual([1, 16]);
+        });
+
+        it('should keep _fields working with cursor columns that are not requested', async () => {
+            const first = await apiRequest.get('/users?_sort=fullName&_fields=phone&_cursor=&_limit=2');
+
+            expectSuccessResponse(first);
+            expect(Object.keys(first.body[0])).toEqual(['phone']);
+
+            const second = await apiRequest.get(`/users?_sort=fullName&_fields=phone&_after=${first.headers['x-next-cursor']}&_limit=2`);
+            expect(second.body.map((user: any) => user.phone)).toEqual(['011-000-0000', '012-000-0000']);
+        });
+
+        it('should reject cursors created for a different _sort', async () => {
+            const first = await apiRequest.get('/users?_sort=fullName&_cursor=&_limit=5');
+            const res = await apiRequest.get(`/users?_sort=-fullName&_after=${first.headers['x-next-cursor']}`);
+
+            expect(res.statusCode).toEqual(400);
+            expect(res.body.details).toEqual([
+                { parameter: '_after', message: 'cursor does not match the current _sort' }
+            ]);
+        });
+
+        it('should reject malformed cursors', async () => {
+            const res = await apiRequest.get('/users?_cursor=not-a-cursor');
+
+            expect(res.statusCode).toEqual(400);
+            expect(res.body.details).toEqual([{ parameter: '_cursor', message: 'invalid cursor' }]);
+        });
+    });
+
+    describe('Link Headers', () => {
+        const parseLinks = (header: string) => Object.fromEntries(
+            header.split(', ').map(part => {
+                const [, url, relation] = part.match(/^<([^>]+)>; rel="(\w+)"$/)!;
+                const { pathname, search } = new URL(url);
+                return [relation, decodeURIComponent(pathname + search)];
+            })
+        );
+
+        beforeEach(async () => {
+            await createTestUsers(15);
+        });
+
+        it('should link first, prev, next and last pages', async () => {
+            const res = await apiRequest.get('/users?_page=2&_per_page=5');
+
+            expectSuccessResponse(res);
+            expect(parseLinks(res.headers.link)).toEqual({
+                first: '/api/v1/users?_page=1&_per_page=5',
+                prev: '/api/v1/users?_page=1&_per_page=5',
+                next: '/api/v1/users?_page=3&_per_page=5',
+                last: '/api/v1/users?_page=3&_per_page=5'
+            });
+        });
+
+        it('should omit prev on the first page and next on the last page', async () => {
+            const first = await apiRequest.get('/users?_per_page=5');
+            expect(Object.keys(parseLinks(first.headers.link))).toEqual(['first', 'next', 'last']);
+
+            const last = await apiRequest.get('/users?_page=3&_per_page=5');
+            expect(Object.keys(parseLinks(last.headers.link))).toEqual(['first', 'prev', 'last']);
+        });
+
+        it('should keep filters and sorting in the links', async () => {
+            const res = await apiRequest.get('/users?fullName_like=User 1&_sort=-id&_per_page=5');
+
+            expect(parseLinks(res.headers.link).next).toEqual('/api/v1/users?fullName_like=User+1&_sort=-id&_page=2&_per_page=5');
+        });
+
+        it('should follow range pagination', async () => {
+            const res = await apiRequest.get('/users?_start=5&_limit=5');
+
+            expect(parseLinks(res.headers.link)).toEqual({
+                first: '/api/v1/users?_start=0&_limit=5',
+                prev: '/api/v1/users?_start=0&_limit=5',
+                next: '/api/v1/users?_start=10&_limit=5',
+                last: '/api/v1/users?_start=10&_limit=5'
+            });
+        });
+
+        it('should link cursor pages', async () => {
+            const res = await apiRequest.get('/users?_cursor=&_limit=5');
+            const links = parseLinks(res.headers.link);
+
+            expect(links.first).toEqual('/api/v1/users?_limit=5&_cursor=');
+            expect(links.next).toEqual(`/api/v1/users?_limit=5&_after=${res.headers['x-next-cursor']}`);
+            expect(links).not.toHaveProperty('last');
+        });
+
+        it('should detect a next page without a total count', async () => {
+            const app = createTestApp({ countStrategy: 'none' });
+
+            const res = await request(app).get('/api/v1/users?_page=3&_per_page=5');
+            const links = parseLinks(res.headers.link);
+            expect(links).toHaveProperty('next');
+            expect(links).not.toHaveProperty('last');
+
+            const lastRes = await request(app).get('/api/v1/users?_page=4&_per_page=5');
+            expect(parseLinks(lastRes.headers.link)).not.toHaveProperty('next');
+        });
+    });
+
+    describe('Response Envelope', () => {
+        beforeEach(async () => {
+            await createTestUsers(15);
+        });
+
+        it('should wrap list responses in data, meta and links', async () => {
+            const app = createTestApp({ responseEnvelope: true });
+            const res = await request(app).get('/api/v1/users?_page=2&_per_page=5');
+
+            expectSuccessResponse(res);
+            expect(res.body.data).toHaveLength(5);
+            expect(res.body.data[0].fullName).toEqual('User 6');
+            expect(res.body.meta).toEqual({ total: 15, page: 2, perPage: 5, pages: 3 });
+            expect(Object.keys(res.body.links)).toEqual(['first', 'prev', 'next', 'last']);
+            expect(res.headers).toHaveProperty('link');
+        });
+
+        it('should report null totals with the none count strategy', async () => {
+            const app = createTestApp({ responseEnvelope: true, countStrategy: 'none' });
+            const res = await request(app).get('/api/v1/users');
+
+            expect(res.body.meta).toEqual({ total: null, page: 1, perPage: 10, pages: null });
+        });
+
+        it('should allow per-table envelope settings', async () => {
+            const app = createTestApp({ tableOptions: { users: { responseEnvelope: true } } });
+
+            const usersRes = await request(app).get('/api/v1/users');
+            expect(usersRes.body.data).toHaveLength(10);
+
+            const postsRes = await request(app).get('/api/v1/posts');
+            expect(postsRes.body).toEqual([]);
+        });
+    });
 });
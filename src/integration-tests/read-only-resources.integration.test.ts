@@ -0,0 +1,173 @@
+import { eq } from 'drizzle-orm';
+import request from 'supertest';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { db } from '@/db/connection';
+import * as schema from '@/db/schema.js';
+import { HookContext, OperationType } from '@/utils/hook-context';
+
+import {
+    apiRequest,
+    createTestApp,
+    expectSuccessResponse,
+    setupTestDatabase
+} from './test-helpers';
+
+describe('Read-only Resources', () => {
+    let aliceId: number;
+    let bobId: number;
+
+    beforeEach(async () => {
+        await setupTestDatabase();
+
+        const [alice, bob] = await db.insert(schema.users).values([
+            { fullName: 'Alice Smith', phone: null },
+            { fullName: 'Bob Johnson', phone: null }
+        ]).returning();
+        aliceId = alice.id;
+        bobId = bob.id;
+
+        const [first, second] = await db.insert(schema.posts).values([
+            { title: 'First Post', userId: alice.id },
+            { title: 'Second Post', userId: alice.id },
+            { title: 'Third Post', userId: bob.id }
+        ]).returning();
+
+        await db.insert(schema.comments).values([
+            { text: 'Nice', postId: first.id },
+            { text: 'Agreed', postId: first.id },
+            { text: 'Thanks', postId: second.id }
+        ]);
+
+        await db.insert(schema.auditLog).values([
+            { action: 'login' },
+            { action: 'logout' },
+            { action: 'login' }
+        ]);
+
+        await db.refreshMaterializedView(schema.userPostCounts);
+    });
+
+    describe('Views', () => {
+        it('should list rows with filtering, sorting and pagination', async () => {
+            const res = await apiRequest.get('/postStats?commentCount_gte=1&_sort=-commentCount&_per_page=1');
+
+            expectSuccessResponse(res);
+            expect(res.headers['x-total-count']).toEqual('2');
+            expect(res.body).toEqual([
+                { id: expect.any(Number), title: 'First Post', userId: aliceId, commentCount: 2 }
+            ]);
+        });
+
+        it('should select fields of a view', async () => {
+            const res = await apiRequest.get(`/postStats?userId=${bobId}&_fields=title,commentCount`);
+
+            expectSuccessResponse(res);
+            expect(res.body).toEqual([{ title: 'Third Post', commentCount: 0 }]);
+        });
+
+        it('should respond with 405 to write requests', async () => {
+            const createRes = await apiRequest.post('/postStats', { title: 'New' });
+            expect(createRes.statusCode).toEqual(405);
+            expect(createRes.headers.allow).toEqual('GET');
+
+            const patchRes = await apiRequest.patch('/postStats/1', { title: 'Changed' });
+            expect(patchRes.statusCode).toEqual(405);
+
+            const deleteRes = await apiRequest.delete('/postStats/1');
+            expect(deleteRes.statusCode).toEqual(405);
+        });
+
+        it('should not register item routes', async () => {
+            const res = await apiRequest.get('/postStats/1');
+
+            expect(res.statusCode).toEqual(404);
+        });
+
+        it('should reject cursor pagination', async () => {
+            const res = await apiRequest.get('/postStats?_cursor=');
+
+            expect(res.statusCode).toEqual(400);
+            expect(res.body.details).toEqual([{
+                parameter: '_cursor',
+                message: 'cursor pagination requires a primary key; use _page or _start instead'
+            }]);
+        });
+    });
+
+    describe('Keyless Tables', () => {
+        it('should list rows', async () => {
+            const res = await apiRequest.get('/auditLog?action=login');
+
+            expectSuccessResponse(res);
+            expect(res.body).toHaveLength(2);
+            expect(res.headers['x-total-count']).toEqual('2');
+        });
+
+        it('should respond with 405 to write requests', async () => {
+            const res = await apiRequest.post('/auditLog', { action: 'forged' });
+
+            expect(res.statusCode).toEqual(405);
+            expect(await db.select().from(schema.auditLog)).toHaveLength(3);
+        });
+    });
+
+    describe('Materialized Views', () => {
+        const refreshApp = createTestApp({
+            tableOptions: { userPostCounts: { refreshEndpoint: true, hooks: { beforeOperation: async () => { } } } }
+        });
+
+        it('should list the rows of the last refresh', async () => {
+            await db.insert(schema.posts).values({ title: 'Fourth Post', userId: bobId });
+
+            const res = await apiRequest.get('/userPostCounts?_sort=id');
+
+            expectSuccessResponse(res);
+            expect(res.body.map((row: any) => row.postCount)).toEqual([2, 1]);
+        });
+
+        it('should refresh the view', async () => {
+            await db.insert(schema.posts).values({ title: 'Fourth Post', userId: bobId });
+
+            const refreshRes = await request(refreshApp).post('/api/v1/userPostCounts/refresh');
+            expectSuccessResponse(refreshRes, 204);
+
+            const res = await request(refreshApp).get(`/api/v1/userPostCounts?id=${bobId}`);
+            expect(res.body[0].postCount).toEqual(2);
+        });
+
+        it('should not register the refresh endpoint by default', async () => {
+            const res = await apiRequest.post('/userPostCounts/refresh');
+
+            expect(res.statusCode).toEqual(404);
+        });
+
+        it('should guard the refresh endpoint with the beforeOperation hook', async () => {
+            const beforeOperation = vi.fn(async (context: HookContext) => {
+                if (context.operation === OperationType.REFRESH) {
+                    throw new Error('Refresh is restricted to admins');
+                }
+            });
+            const guardedApp = createTestApp({
+                tableOptions: { userPostCounts: { refreshEndpoint: true, hooks: { beforeOperation } } }
+            });
+            await db.insert(schema.posts).values({ title: 'Fourth Post', userId: bobId });
+
+            const refreshRes = await request(guardedApp).post('/api/v1/userPostCounts/refresh');
+            expect(refreshRes.statusCode).toEqual(403);
+
+            const [row] = await db.select().from(schema.userPostCounts).where(eq(schema.userPostCounts.id, bobId));
+            expect(row.postCount).toEqual(1);
+        });
+
+        it('should reject an unguarded refresh endpoint', () => {
+            expect(() => createTestApp({ tableOptions: { userPostCounts: { refreshEndpoint: true } } }))
+                .toThrow('refreshEndpoint of \'userPostCounts\' requires a beforeOperation hook to guard it');
+        });
+
+        it('should reject the refresh endpoint for other resources', () => {
+            expect(() => createTestApp({ tableOptions: { postStats: { refreshEndpoint: true } } }))
+                .toThrow('refreshEndpoint of \'postStats\' requires a materialized view');
+        });
+    });
+});
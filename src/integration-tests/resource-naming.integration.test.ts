@@ -0,0 +1,126 @@
+import request from 'supertest';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { db } from '@/db/connection';
+import * as schema from '@/db/schema.js';
+import { HookContext } from '@/utils/hook-context';
+
+import {
+    apiRequest,
+    createTestApp,
+    expectSuccessResponse,
+    setupTestDatabase
+} from './test-helpers';
+
+describe('Resource Naming', () => {
+    let aliceId: number;
+    let postId: number;
+
+    beforeEach(async () => {
+        await setupTestDatabase();
+
+        const [alice] = await db.insert(schema.users).values({ fullName: 'Alice Smith', phone: null }).returning();
+        aliceId = alice.id;
+
+        const [post] = await db.insert(schema.posts).values({ title: 'Drizzle Tips', userId: alice.id }).returning();
+        postId = post.id;
+
+        const [tag] = await db.insert(schema.tags).values({ name: 'orm' }).returning();
+        await db.insert(schema.postTags).values({ postId: post.id, tagId: tag.id });
+        await db.insert(schema.userSettings).values({ userId: alice.id, key: 'theme', value: 'dark' });
+        await db.insert(schema.invoices).values([
+            { userId: alice.id, amount: 100 },
+            { userId: alice.id, amount: 250 }
+        ]);
+    });
+
+    describe('pgSchema namespaces', () => {
+        it('should serve tables under their schema', async () => {
+            const res = await apiRequest.get('/billing/invoices?amount_gte=200');
+
+            expectSuccessResponse(res);
+            expect(res.body).toEqual([{ id: expect.any(Number), userId: aliceId, amount: 250 }]);
+        });
+
+        it('should qualify the table in hook contexts', async () => {
+            const beforeOperation = vi.fn(async (_context: HookContext) => { });
+            const app = createTestApp({ tableOptions: { invoices: { hooks: { beforeOperation } } } });
+
+            await request(app).post('/api/v1/billing/invoices').send({ userId: aliceId, amount: 75 });
+
+            expect(beforeOperation).toHaveBeenCalledWith(expect.objectContaining({
+                table: 'billing.invoices',
+                metadata: expect.objectContaining({ tableName: 'invoices' })
+            }));
+        });
+
+        it('should not serve namespaced tables at the root', async () => {
+            const res = await apiRequest.get('/invoices');
+
+            expect(res.statusCode).toEqual(404);
+        });
+    });
+
+    describe('Naming strategies', () => {
+        const app = createTestApp({ namingStrategy: 'kebab' });
+
+        it('should derive paths from the SQL table name', async () => {
+            const settingsRes = await request(app).get(`/api/v1/user-settings/${aliceId},theme`);
+            expectSuccessResponse(settingsRes);
+            expect(settingsRes.body.value).toEqual('dark');
+
+            const oldPathRes = await request(app).get('/api/v1/userSettings');
+            expect(oldPathRes.statusCode).toEqual(404);
+        });
+
+        it('should name derived embeds and nested routes the same way', async () => {
+            const embedRes = await request(app).get(`/api/v1/posts/${postId}?_embed=post-tags`);
+            expectSuccessResponse(embedRes);
+            expect(embedRes.body['post-tags']).toHaveLength(1);
+
+            const nestedRes = await request(app).get(`/api/v1/users/${aliceId}/user-settings`);
+            expectSuccessResponse(nestedRes);
+            expect(nestedRes.body).toEqual([{ userId: aliceId, key: 'theme', value: 'dark' }]);
+        });
+
+        it('should report resource names in hook contexts and dependent delete counts', async () => {
+            const beforeOperation = vi.fn(async (_context: HookContext) => { });
+            const hookedApp = createTestApp({
+                namingStrategy: 'snake',
+                tableOptions: { userSettings: { hooks: { beforeOperation } } }
+            });
+
+            const [bob] = await db.insert(schema.users).values({ fullName: 'Bob Johnson', phone: null }).returning();
+            await db.insert(schema.userSettings).values({ userId: bob.id, key: 'theme', value: 'light' });
+            await db.insert(schema.invoices).values([{ userId: bob.id, amount: 10 }, { userId: bob.id, amount: 20 }]);
+
+            const res = await request(hookedApp).delete(`/api/v1/users/${bob.id}?_dependent=user_settings,billing_invoices`);
+
+            expect(res.statusCode).toEqual(200);
+            expect(res.body.deleted).toEqual({ 'users': 1, 'user_settings': 1, 'billing.invoices': 2 });
+            expect(beforeOperation).toHaveBeenCalledWith(expect.objectContaining({ table: 'user_settings' }));
+        });
+    });
+
+    describe('Path overrides', () => {
+        it('should serve a table at its configured path', async () => {
+            const app = createTestApp({ tableOptions: { tags: { path: '/labels' } } });
+
+            const listRes = await request(app).get('/api/v1/labels');
+            expectSuccessResponse(listRes);
+            expect(listRes.body).toEqual([{ id: expect.any(Number), name: 'orm' }]);
+
+            const nestedRes = await request(app).get(`/api/v1/labels/${listRes.body[0].id}/postTags`);
+            expectSuccessResponse(nestedRes);
+            expect(nestedRes.body).toHaveLength(1);
+
+            const defaultPathRes = await request(app).get('/api/v1/tags');
+            expect(defaultPathRes.statusCode).toEqual(404);
+        });
+
+        it('should reject tables served at the same path', () => {
+            expect(() => createTestApp({ tableOptions: { tags: { path: '/users' } } }))
+                .toThrow('Tables \'users\' and \'tags\' are both served at \'/users\'');
+        });
+    });
+});
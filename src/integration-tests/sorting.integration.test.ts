@@ -1,5 +1,8 @@
 import { beforeEach,describe, expect, it } from 'vitest';
 
+import { db } from '@/db/connection';
+import * as schema from '@/db/schema.js';
+
 import {
     apiRequest,
     createTestUsers,
@@ -134,4 +137,46 @@ describe('JSON-Server Sorting', () => {
             }
         });
     });
+
+    describe('Relation Path Sorting', () => {
+        beforeEach(async () => {
+            // Users 3, 1 and 2 in title order, so post ids and author names disagree
+            const posts = await db.insert(schema.posts).values([
+                { title: 'Post C', userId: 3 },
+                { title: 'Post A', userId: 1 },
+                { title: 'Post B', userId: 2 },
+                { title: 'Post D', userId: null }
+            ]).returning();
+
+            await db.insert(schema.comments).values(
+                posts.map(post => ({ text: `On ${post.title}`, postId: post.id, userId: 1 }))
+            );
+        });
+
+        it('should sort by a column of a belongs_to relation', async () => {
+            const res = await apiRequest.get('/posts?_sort=user.fullName');
+            expectSuccessResponse(res);
+            // NULLs sort last in ascending order
+            expect(res.body.map((post: any) => post.title)).toEqual(['Post A', 'Post B', 'Post C', 'Post D']);
+        });
+
+        it('should sort by nested paths in descending order', async () => {
+            const res = await apiRequest.get('/comments?_sort=-post.user.fullName,id');
+            expectSuccessResponse(res);
+            expect(res.body.map((comment: any) => comment.text)).toEqual(['On Post D', 'On Post C', 'On Post B', 'On Post A']);
+        });
+
+        it('should combine relation sorting with filters, fields and pagination', async () => {
+            const res = await apiRequest.get('/comments?_sort=post.title&_fields=text&post.userId_gte=2&_per_page=1');
+            expectSuccessResponse(res);
+            expect(res.body).toEqual([{ text: 'On Post B' }]);
+            expect(res.headers['x-total-count']).toEqual('2');
+        });
+
+        it('should reject relation sorting with cursor pagination', async () => {
+            const res = await apiRequest.get('/posts?_sort=user.fullName&_cursor=');
+            expect(res.statusCode).toEqual(400);
+            expect(res.body.details[0].parameter).toEqual('_sort');
+        });
+    });
 });
@@ -0,0 +1,95 @@
+import request from 'supertest';
+import { beforeEach, describe, expect, it } from 'vitest';
+
+import { createFilteringTestData, createTestApp, setupTestDatabase } from './test-helpers';
+
+describe('Strict Query Mode', () => {
+    beforeEach(async () => {
+        await setupTestDatabase();
+        await createFilteringTestData();
+    });
+
+    it('should accept valid filters, sort fields and embeds', async () => {
+        const app = createTestApp({ strictQuery: true });
+
+        const res = await request(app).get('/api/v1/users?fullName_like=Alice&_sort=-id&_embed=posts');
+        expect(res.statusCode).toEqual(200);
+        expect(res.body).toHaveLength(2);
+    });
+
+    it('should reject unknown filter keys', async () => {
+        const app = createTestApp({ strictQuery: true });
+
+        const res = await request(app).get('/api/v1/users?fullNam=Alice Smith');
+        expect(res.statusCode).toEqual(400);
+        expect(res.body).toEqual(expect.objectContaining({
+            error: 'Invalid query parameters',
+            details: [{ parameter: 'fullNam', message: 'unknown filter' }]
+        }));
+    });
+
+    it('should list every unrecognized parameter in one response', async () => {
+        const app = createTestApp({ strictQuery: true });
+
+        const res = await request(app).get('/api/v1/users?nope=1&phone_like=1&_sort=id,-age&_embed=profile');
+        expect(res.statusCode).toEqual(400);
+        expect(res.body.details).toEqual([
+            { parameter: 'nope', message: 'unknown filter' },
+            { parameter: '_sort', message: "unknown sort field 'age'" },
+            { parameter: '_embed', message: "unknown relation 'profile'" },
+        ]);
+    });
+
+    it('should reject unknown keys inside _where', async () => {
+        const app = createTestApp({ strictQuery: true });
+        const tree = encodeURIComponent(JSON.stringify({ or: [{ id: 1 }, { status: 'draft' }] }));
+
+        const res = await request(app).get(`/api/v1/users?_where=${tree}`);
+        expect(res.statusCode).toEqual(400);
+        expect(res.body.details).toEqual([{ parameter: '_where.status', message: 'unknown filter' }]);
+    });
+
+    it('should validate relation paths in filters and sort fields', async () => {
+        const app = createTestApp({ strictQuery: true });
+
+        const validRes = await request(app).get('/api/v1/posts?user.fullName_like=Alice&comments._exists=false&_sort=user.fullName');
+        expect(validRes.statusCode).toEqual(200);
+
+        const res = await request(app).get('/api/v1/posts?author.name=1&user.email=x&comments.text=x&tags._exists=true&_sort=user.age');
+        expect(res.statusCode).toEqual(400);
+        expect(res.body.details).toEqual([
+            { parameter: 'author.name', message: "unknown relation 'author'" },
+            { parameter: 'user.email', message: 'unknown filter' },
+            { parameter: 'comments.text', message: "'comments' is not a belongs_to relation path" },
+            { parameter: '_sort', message: "unknown sort field 'user.age'" },
+        ]);
+    });
+
+    it('should reject invalid pagination instead of falling back', async () => {
+        const app = createTestApp({ strictQuery: true });
+
+        const res = await request(app).get('/api/v1/users?_per_page=500');
+        expect(res.statusCode).toEqual(400);
+        expect(res.body.details).toEqual([
+            expect.objectContaining({ parameter: '_per_page' })
+        ]);
+    });
+
+    it('should allow tables to opt out of the adapter-level setting', async () => {
+        const app = createTestApp({ strictQuery: true, tableOptions: { users: { strictQuery: false } } });
+
+        const res = await request(app).get('/api/v1/users?nope=1');
+        expect(res.statusCode).toEqual(200);
+        expect(res.body).toHaveLength(6);
+    });
+
+    it('should allow tables to opt in when the adapter is lenient', async () => {
+        const app = createTestApp({ strictQuery: false, tableOptions: { users: { strictQuery: true } } });
+
+        const usersRes = await request(app).get('/api/v1/users?nope=1');
+        expect(usersRes.statusCode).toEqual(400);
+
+        const postsRes = await request(app).get('/api/v1/posts?nope=1');
+        expect(postsRes.statusCode).toEqual(200);
+    });
+});
@@ -7,16 +7,17 @@ import { expect } from 'vitest';
 import { db } from '@/db/connection';
 import * as schema from '@/db/schema.js';
 
-import { createDrizzleRestAdapter } from '../drizzle-rest-adapter';
+import { createDrizzleRestAdapter, DrizzleRestAdapterOptions } from '../drizzle-rest-adapter';
 
 // Setup Express app with Drizzle REST adapter
-export const createTestApp = () => {
+export const createTestApp = (options: Partial<DrizzleRestAdapterOptions> = {}) => {
     const app = express();
     app.use(express.json());
 
     const drizzleApiRouter = createDrizzleRestAdapter({
         db: db,
         schema: schema,
+        ...options,
     });
 
     app.use('/api/v1', drizzleApiRouter);
@@ -39,7 +40,7 @@ export const TEST_USERS = {
 } as const;
 
 // Helper functions
-export const createTestUser = async (userData: { fullName: string; phone: string } = TEST_USERS.alice) => {
+export const createTestUser = async (userData: { fullName: string; phone: string | null } = TEST_USERS.alice) => {
     const [user] = await db.insert(schema.users).values(userData).returning();
     return user;
 };
@@ -52,6 +53,29 @@ export const createTestUsers = async (count: number, prefix = 'User') => {
     return await db.insert(schema.users).values(users).returning();
 };
 
+/**
+ * Creates `authorCount` authors with `postsPerAuthor` posts each, interleaved so authors are not contiguous.
+ * Each post gets one comment from every author with a lower id than its own author.
+ */
+export const createAuthorsWithComments = async (authorCount: number, postsPerAuthor: number) => {
+    const users = await db.insert(schema.users).values(
+        Array.from({ length: authorCount }, (_, i) => ({ fullName: `Author ${i + 1}`, phone: null }))
+    ).returning();
+
+    const posts = await db.insert(schema.posts).values(
+        Array.from({ length: postsPerAuthor }, (_, round) => round).flatMap(round => users.map(user => ({
+            title: `${user.fullName} Post ${round + 1}`,
+            userId: user.id
+        })))
+    ).returning();
+
+    await db.insert(schema.comments).values(
+        posts.flatMap(post => users
+            .filter(user => user.id < post.userId!)
+            .map(user => ({ text: `${user.fullName} on ${post.title}`, postId: post.id, userId: user.id })))
+    );
+};
+
 export const createFilteringTestData = async () => {
     return await db.insert(schema.users).values([
         TEST_USERS.alice,
@@ -106,11 +130,18 @@ export const setupTestDatabase = async () => {
     await migrate(db, { migrationsFolder: './drizzle' });
 
     // Clear tables in correct order (child tables first to avoid foreign key violations)
-    await db.delete(schema.comments); // Delete comments first
+    await db.delete(schema.postTags); // Delete junction rows first
+    await db.delete(schema.tags);
+    await db.delete(schema.userSettings);
+    await db.delete(schema.invoices);
+    await db.delete(schema.auditLog);
+    await db.delete(schema.comments); // Then comments
     await db.delete(schema.posts);    // Then posts
     await db.delete(schema.users);    // Finally users
 
     // Reset the auto-increment counters
+    await db.execute(sql`ALTER SEQUENCE post_tags_id_seq RESTART WITH 1`);
+    await db.execute(sql`ALTER SEQUENCE tags_id_seq RESTART WITH 1`);
     await db.execute(sql`ALTER SEQUENCE comments_id_seq RESTART WITH 1`);
     await db.execute(sql`ALTER SEQUENCE posts_id_seq RESTART WITH 1`);
     await db.execute(sql`ALTER SEQUENCE users_id_seq RESTART WITH 1`);
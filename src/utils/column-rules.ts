@@ -0,0 +1,68 @@
+import { PgTable } from 'drizzle-orm/pg-core';
+import { createInsertSchema } from 'drizzle-zod';
+
+import { ColumnMetadata, TableMetadata } from './schema-inspector';
+
+/** Access rule of a column, from the `columns` table option */
+export interface ColumnRule {
+    /** Never selected, returned, filtered, sorted or written by clients (e.g. `passwordHash`) */
+    hidden?: boolean;
+    /** Returned, but removed from request bodies (e.g. `createdAt`) */
+    readOnly?: boolean;
+    /** Accepted in request bodies, but never returned, filtered or sorted (e.g. `password`) */
+    writeOnly?: boolean;
+}
+
+export const isReadable = (column: ColumnMetadata): boolean => !column.rule?.hidden && !column.rule?.writeOnly;
+
+const isWritable = (column: ColumnMetadata): boolean => !column.rule?.hidden && !column.rule?.readOnly;
+
+/** Attaches the rules to the column metadata. Throws for rules naming unknown columns. */
+export const applyColumnRules = (tableMetadata: TableMetadata, rules: Record<string, ColumnRule> = {}): TableMetadata => {
+    const unknownColumn = Object.keys(rules).find(name => !tableMetadata.columns.some(column => column.name === name));
+    if (unknownColumn) {
+        throw new Error(`Column rule '${unknownColumn}' of table '${tableMetadata.name}' does not match a column`);
+    }
+
+    return {
+        ...tableMetadata,
+        columns: tableMetadata.columns.map(column => rules[column.name] ? { ...column, rule: rules[column.name] } : column)
+    };
+};
+
+/** Whether some columns of the table must not be returned to clients */
+export const hasUnreadableColumns = (tableMetadata?: TableMetadata): boolean =>
+    !!tableMetadata?.columns.some(column => !isReadable(column));
+
+/**
+ * Narrows a Drizzle column map to the columns clients may read. Used for projections and
+ * to validate filters, sort fields and `_fields`, so rules apply to every query parameter.
+ */
+export const getReadableColumns = (columns: Record<string, any>, tableMetadata?: TableMetadata): Record<string, any> => {
+    if (!hasUnreadableColumns(tableMetadata)) return columns;
+
+    return Object.fromEntries(Object.entries(columns).filter(([name]) => {
+        const column = tableMetadata!.columns.find(candidate => candidate.name === name);
+        return !column || isReadable(column);
+    }));
+};
+
+/** Removes the fields clients may not read from a record, e.g. one returned by an insert */
+export const omitUnreadable = <T extends Record<string, any>>(record: T, tableMetadata?: TableMetadata): T => {
+    if (!record || !hasUnreadableColumns(tableMetadata)) return record;
+
+    const hiddenNames = tableMetadata!.columns.filter(column => !isReadable(column)).map(column => column.name);
+    return Object.fromEntries(Object.entries(record).filter(([name]) => !hiddenNames.includes(name))) as T;
+};
+
+/**
+ * Insert schema for request bodies. Columns clients may not write are left out of it,
+ * so they are stripped from create, update and replace bodies.
+ */
+export const createWriteSchema = (table: PgTable, tableMetadata: TableMetadata) => {
+    const protectedColumns = tableMetadata.columns.filter(column => !isWritable(column));
+
+    return createInsertSchema(table).omit(
+        Object.fromEntries(protectedColumns.map(column => [column.name, true])) as Record<string, true>
+    );
+};
@@ -0,0 +1,200 @@
+import { and, asc, desc, eq, gt, isNotNull, isNull, lt, or, SQL, sql } from 'drizzle-orm';
+
+import { QueryValidationError } from './error-handler';
+import { ParsedQueryParams } from './query-parser';
+import { ColumnMetadata } from './schema-inspector';
+import { coerceColumnValue, CoercionError } from './value-coercion';
+
+type SortOrder = 'asc' | 'desc';
+
+export interface CursorPage {
+    rows: any[];
+    nextCursor?: string;
+    prevCursor?: string;
+}
+
+interface CursorPayload {
+    /** Sort signature the cursor was created for */
+    s: string;
+    /** Values of the ordering columns for the boundary row */
+    v: unknown[];
+}
+
+/**
+ * Keyset pagination over the active `_sort` columns plus the primary key.
+ *
+ * Cursors are opaque tokens holding the ordering values of a boundary row.
+ * `_after` (or `_cursor`) continues forward from a row, `_before` pages backwards
+ * by querying in reverse order and flipping the result.
+ */
+export class CursorPagination {
+    private ordering: Array<{ column: string; order: SortOrder }>;
+    private boundary?: unknown[];
+
+    constructor(
+        private columns: Record<string, any>,
+        private columnMetadata: ColumnMetadata[],
+        primaryKey: string[],
+        sort: ParsedQueryParams['sort'],
+        private cursor: NonNullable<ParsedQueryParams['pagination']['cursor']>,
+        private pageSize: number
+    ) {
+        const sortFields = (sort || []).filter(sortField => this.columns[sortField.column]);
+
+        // The primary key makes the ordering total, so every row has a unique position
+        this.ordering = [
+            ...sortFields,
+            ...primaryKey
+                .filter(column => !sortFields.some(sortField => sortField.column === column))
+                .map(column => ({ column, order: 'asc' as const }))
+        ];
+
+        if (cursor.token) {
+            this.boundary = this.decode(cursor.token);
+        }
+    }
+
+    /** Columns that must be selected to build cursors */
+    get requiredColumns(): string[] {
+        return this.ordering.map(({ column }) => column);
+    }
+
+    /** One extra row is fetched to detect whether another page exists */
+    get limit(): number {
+        return this.pageSize + 1;
+    }
+
+    get orderBy(): SQL[] {
+        return this.queryOrdering().map(({ column, order }) =>
+            order === 'desc' ? desc(this.expression(column)) : asc(this.expression(column))
+        );
+    }
+
+    /** Condition selecting the rows past the cursor, or undefined on the first page */
+    get condition(): SQL | undefined {
+        if (!this.boundary) return undefined;
+
+        const ordering = this.queryOrdering();
+        const boundary = this.boundary;
+
+        return or(...ordering.map((_, index) => and(
+            ...ordering.slice(0, index).map(({ column }, tieIndex) => this.tie(column, boundary[tieIndex])),
+            this.after(ordering[index].column, ordering[index].order, boundary[index])
+        )));
+    }
+
+    paginate(fetchedRows: any[]): CursorPage {
+        const hasMore = fetchedRows.length > this.pageSize;
+        const rows = fetchedRows.slice(0, this.pageSize);
+        const first = () => this.encode(rows[0]);
+        const last = () => this.encode(rows[rows.length - 1]);
+
+        if (rows.length === 0) {
+            return { rows };
+        }
+
+        if (this.cursor.direction === 'before') {
+            rows.reverse();
+            return {
+                rows,
+                nextCursor: last(),
+                prevCursor: hasMore ? first() : undefined
+            };
+        }
+
+        return {
+            rows,
+            nextCursor: hasMore ? last() : undefined,
+            prevCursor: this.boundary ? first() : undefined
+        };
+    }
+
+    private queryOrdering(): Array<{ column: string; order: SortOrder }> {
+        if (this.cursor.direction === 'after') {
+            return this.ordering;
+        }
+
+        return this.ordering.map(({ column, order }) => ({
+            column,
+            order: order === 'asc' ? 'desc' as const : 'asc' as const
+        }));
+    }
+
+    // Postgres sorts NULLs last in ascending and first in descending order
+    private after(columnName: string, order: SortOrder, value: unknown): SQL {
+        const column = this.expression(columnName);
+
+        if (order === 'asc') {
+            return value === null ? sql`false` : or(gt(column, value), isNull(column))!;
+        }
+
+        return value === null ? isNotNull(column) : lt(column, value);
+    }
+
+    private tie(columnName: string, value: unknown): SQL {
+        const column = this.expression(columnName);
+        return value === null ? isNull(column) : eq(column, value);
+    }
+
+    /**
+     * Timestamps are compared at millisecond precision, because cursor values
+     * pass through JavaScript Dates and would otherwise repeat boundary rows.
+     */
+    private expression(columnName: string): any {
+        const column = this.columns[columnName];
+        return this.isTimestamp(columnName) ? sql`date_trunc('milliseconds', ${column})` : column;
+    }
+
+    private isTimestamp(columnName: string): boolean {
+        const metadata = this.columnMetadata.find(column => column.name === columnName);
+        return !!metadata?.type.startsWith('timestamp');
+    }
+
+    private signature(): string {
+        return this.ordering.map(({ column, order }) => `${column}:${order}`).join(',');
+    }
+
+    private encode(row: any): string {
+        const payload: CursorPayload = {
+            s: this.signature(),
+            v: this.ordering.map(({ column }) => row[column] ?? null)
+        };
+
+        const json = JSON.stringify(payload, (_key, value) => typeof value === 'bigint' ? value.toString() : value);
+        return Buffer.from(json).toString('base64url');
+    }
+
+    private decode(token: string): unknown[] {
+        const parameter = this.cursor.parameter;
+        let payload: CursorPayload;
+
+        try {
+            payload = JSON.parse(Buffer.from(token, 'base64url').toString('utf8'));
+        } catch {
+            throw new QueryValidationError([{ parameter, message: 'invalid cursor' }]);
+        }
+
+        if (!payload || !Array.isArray(payload.v) || payload.v.length !== this.ordering.length) {
+            throw new QueryValidationError([{ parameter, message: 'invalid cursor' }]);
+        }
+
+        if (payload.s !== this.signature()) {
+            throw new QueryValidationError([{ parameter, message: 'cursor does not match the current _sort' }]);
+        }
+
+        try {
+            return payload.v.map((value, index) => {
+                const columnName = this.ordering[index].column;
+                const metadata = this.columnMetadata.find(column => column.name === columnName);
+                if (value === null || !metadata) return value;
+
+                const coerced = coerceColumnValue(metadata, value);
+                // Timestamps are compared against a date_trunc() expression, which has no column encoder
+                return coerced instanceof Date && this.isTimestamp(columnName) ? coerced.toISOString() : coerced;
+            });
+        } catch (error) {
+            if (!(error instanceof CoercionError)) throw error;
+            throw new QueryValidationError([{ parameter, message: 'invalid cursor' }]);
+        }
+    }
+}
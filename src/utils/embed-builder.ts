@@ -1,109 +1,347 @@
-import { eq } from 'drizzle-orm';
+import { and, asc, count, desc, eq, getTableColumns, inArray, lte, SQL, sql } from 'drizzle-orm';
 
-import { RelationMetadata, TableMetadata } from './schema-inspector';
+import { getReadableColumns, omitUnreadable } from './column-rules';
+import { QueryValidationIssue } from './error-handler';
+import { FilterBuilder } from './filter-builder';
+import { defaultLogger, Logger } from './logger';
+import { ScopedParams } from './query-parser';
+import { RelationMetadata, resolveParentKey, TableMetadata } from './schema-inspector';
 
 type DrizzleDb = any;
 
+/** Embed path and its scoped parameters, if any */
+interface EmbedScope {
+    path: string;
+    scope?: ScopedParams;
+}
+
+// Helper columns added to collection queries, removed before embedding
+const PARENT_KEY = '__parent_key';
+const ROW_NUMBER = '__row_number';
+
+/** Embed paths grouped by segment: `comments.user` and `comments` share the `comments` node */
+type EmbedTree = Map<string, EmbedTree>;
+
+export const DEFAULT_MAX_EMBED_DEPTH = 3;
+
+/** Name of the field holding a `_count` result, e.g. `comments` -> `commentsCount` */
+export const countFieldName = (relationName: string): string => `${relationName}Count`;
+
 export class EmbedBuilder {
     constructor(
         private db: DrizzleDb,
         private schema: Record<string, any>,
-        private tablesMetadata: Map<string, TableMetadata>
+        private tablesMetadata: Map<string, TableMetadata>,
+        private maxDepth: number = DEFAULT_MAX_EMBED_DEPTH,
+        private logger: Logger = defaultLogger
     ) { }
 
-    async applyEmbeds(data: any[], tableName: string, embedKeys: string[]): Promise<any[]> {
+    /**
+     * Embeds related records for the given keys. Dot-paths (`comments.user`) are resolved
+     * level by level, with one batched query per relation and level.
+     * Paths are expected to be checked with findInvalidEmbeds first.
+     */
+    async applyEmbeds(
+        data: any[],
+        tableName: string,
+        embedKeys: string[],
+        scoped: Record<string, ScopedParams> = {}
+    ): Promise<any[]> {
         if (!embedKeys || embedKeys.length === 0) {
             return data;
         }
 
+        return await this.applyEmbedTree(data, tableName, this.buildEmbedTree(embedKeys), scoped);
+    }
+
+    /**
+     * Returns an issue for every embed path that does not resolve through the
+     * relations of the given table, or that is nested deeper than the maximum depth.
+     */
+    findInvalidEmbeds(tableName: string, embedKeys: string[]): QueryValidationIssue[] {
+        const issues: QueryValidationIssue[] = [];
+
+        for (const embedKey of embedKeys) {
+            if (embedKey.split('.').length > this.maxDepth) {
+                issues.push({
+                    parameter: '_embed',
+                    message: `embed '${embedKey}' exceeds the maximum depth of ${this.maxDepth}`
+                });
+            } else if (!this.resolveEmbed(tableName, embedKey)) {
+                issues.push({ parameter: '_embed', message: `unknown relation '${embedKey}'` });
+            }
+        }
+
+        return issues;
+    }
+
+    /**
+     * Adds a `<relation>Count` field to every record for each counted relation, with one
+     * grouped query per relation. Scoped filters on the relation narrow what is counted.
+     */
+    async applyCounts(
+        data: any[],
+        tableName: string,
+        countKeys: string[],
+        scoped: Record<string, ScopedParams> = {}
+    ): Promise<any[]> {
         const tableMetadata = this.tablesMetadata.get(tableName);
         if (!tableMetadata) {
             throw new Error(`Table metadata not found for ${tableName}`);
         }
 
-        // Process each embed request
-        for (const embedKey of embedKeys) {
-            data = await this.applyEmbed(data, tableMetadata, embedKey);
+        for (const countKey of countKeys) {
+            const relation = this.findRelation(tableMetadata, countKey);
+            if (!relation) {
+                throw new Error(`No relation found for count key '${countKey}' in table '${tableMetadata.name}'`);
+            }
+
+            const parentKeyColumn = resolveParentKey(relation, tableMetadata);
+            const counts = await this.countRelated(relation, this.uniqueValues(data, parentKeyColumn), {
+                path: countKey,
+                scope: scoped[countKey]
+            });
+
+            data = data.map(item => ({ ...item, [countFieldName(countKey)]: counts.get(item[parentKeyColumn]) ?? 0 }));
         }
 
         return data;
     }
 
-    private async applyEmbed(data: any[], tableMetadata: TableMetadata, embedKey: string): Promise<any[]> {
-        const relation = this.findRelation(tableMetadata, embedKey);
-        if (!relation) {
-            console.warn(`No relation found for embed key '${embedKey}' in table '${tableMetadata.name}'`);
-            return data;
+    /**
+     * Returns an issue for every `_count` key that is not a `has_many` or `many_to_many` relation of the table.
+     */
+    findInvalidCounts(tableName: string, countKeys: string[]): QueryValidationIssue[] {
+        const tableMetadata = this.tablesMetadata.get(tableName);
+
+        return countKeys.flatMap(countKey => {
+            const relation = tableMetadata && this.findRelation(tableMetadata, countKey);
+            if (!relation) {
+                return [{ parameter: '_count', message: `unknown relation '${countKey}'` }];
+            }
+            if (relation.type !== 'has_many' && relation.type !== 'many_to_many') {
+                return [{ parameter: '_count', message: `'${countKey}' is not a has_many or many_to_many relation` }];
+            }
+            return [];
+        });
+    }
+
+    /**
+     * Returns an issue for every scoped parameter that cannot be applied: parameters on
+     * embeds that are not collections, and unknown filters, sort fields or parameters.
+     */
+    findInvalidScopes(tableName: string, scoped: Record<string, ScopedParams>): QueryValidationIssue[] {
+        const issues: QueryValidationIssue[] = [];
+
+        for (const [path, scope] of Object.entries(scoped)) {
+            const resolved = this.resolveEmbed(tableName, path);
+            if (!resolved) continue;
+
+            // Filters on other embeds are relation filters on the root list
+            const { relation, relatedTable } = resolved;
+            if (!this.isCollection(tableName, path)) {
+                if (scope.sort || scope.limit !== undefined || scope.unknownParams.length > 0) {
+                    issues.push({ parameter: path, message: `scoped parameters require a has_many or many_to_many embed` });
+                }
+                continue;
+            }
+
+            const columns = getReadableColumns(getTableColumns(this.schema[relation.relatedTable]), relatedTable);
+            new FilterBuilder(columns, relatedTable.columns).findUnknownFilters(scope.filters)
+                .forEach(issue => issues.push({ ...issue, parameter: `${path}.${issue.parameter}` }));
+
+            scope.sort
+                ?.filter(sortField => !columns[sortField.column])
+                .forEach(sortField => issues.push({
+                    parameter: `${path}._sort`,
+                    message: `unknown sort field '${sortField.column}'`
+                }));
+
+            scope.unknownParams.forEach(param => issues.push({ parameter: `${path}.${param}`, message: 'unknown parameter' }));
         }
 
-        if (relation.type === 'belongs_to') {
-            return await this.embedBelongsTo(data, relation, embedKey);
-        } else if (relation.type === 'has_many') {
-            return await this.embedHasMany(data, relation, embedKey);
+        return issues;
+    }
+
+    /**
+     * Whether the embed path ends in a relation that embeds a list of records.
+     */
+    isCollection(tableName: string, embedKey: string): boolean {
+        const type = this.resolveEmbed(tableName, embedKey)?.relation.type;
+        return type === 'has_many' || type === 'many_to_many';
+    }
+
+    /**
+     * Resolves an embed path to its last relation and the metadata of the related table.
+     */
+    resolveEmbed(tableName: string, embedKey: string): { relation: RelationMetadata; relatedTable: TableMetadata } | null {
+        let resolved: { relation: RelationMetadata; relatedTable: TableMetadata } | null = null;
+        let currentTable = this.tablesMetadata.get(tableName);
+
+        for (const segment of embedKey.split('.')) {
+            const relation = currentTable && this.findRelation(currentTable, segment);
+            const relatedTable = relation && this.tablesMetadata.get(relation.relatedTable);
+            if (!relation || !relatedTable) return null;
+
+            resolved = { relation, relatedTable };
+            currentTable = relatedTable;
         }
 
-        return data;
+        return resolved;
     }
 
-    private findRelation(tableMetadata: TableMetadata, embedKey: string): RelationMetadata | null {
-        // Try to find relation by exact match first
-        let relation = tableMetadata.relations.find(rel =>
-            this.getEmbedKeyForRelation(rel) === embedKey
-        );
+    /**
+     * Returns the columns of the parent table that the given embeds join on.
+     */
+    getJoinColumns(tableName: string, embedKeys: string[]): string[] {
+        const rootKeys = [...new Set(embedKeys.map(embedKey => embedKey.split('.')[0]))];
+
+        return rootKeys.flatMap(embedKey => {
+            const resolved = this.resolveEmbed(tableName, embedKey);
+            if (!resolved) return [];
+
+            return resolved.relation.type === 'belongs_to'
+                ? [resolved.relation.foreignKey]
+                : [resolved.relation.relatedColumn];
+        });
+    }
+
+    private buildEmbedTree(embedKeys: string[]): EmbedTree {
+        const tree: EmbedTree = new Map();
 
-        if (!relation) {
-            // Try fuzzy matching
-            relation = tableMetadata.relations.find(rel =>
-                rel.relatedTable === embedKey ||
-                rel.relatedTable.replace(/s$/, '') === embedKey ||
-                rel.relatedTable === embedKey + 's'
-            );
+        for (const embedKey of embedKeys) {
+            let node = tree;
+            for (const segment of embedKey.split('.')) {
+                if (!node.has(segment)) {
+                    node.set(segment, new Map());
+                }
+                node = node.get(segment)!;
+            }
         }
 
-        return relation || null;
+        return tree;
     }
 
-    private getEmbedKeyForRelation(relation: RelationMetadata): string {
+    private async applyEmbedTree(
+        data: any[],
+        tableName: string,
+        tree: EmbedTree,
+        scoped: Record<string, ScopedParams>,
+        parentPath?: string
+    ): Promise<any[]> {
+        const tableMetadata = this.tablesMetadata.get(tableName);
+        if (!tableMetadata) {
+            throw new Error(`Table metadata not found for ${tableName}`);
+        }
+
+        for (const [embedKey, children] of tree) {
+            const relation = this.findRelation(tableMetadata, embedKey);
+            if (!relation) {
+                throw new Error(`No relation found for embed key '${embedKey}' in table '${tableMetadata.name}'`);
+            }
+
+            const path = parentPath ? `${parentPath}.${embedKey}` : embedKey;
+            const joinColumns = this.getJoinColumns(relation.relatedTable, [...children.keys()]);
+            data = await this.applyEmbed(data, tableMetadata, relation, embedKey, { path, scope: scoped[path] }, joinColumns);
+            data = await this.applyNestedEmbeds(data, relation.relatedTable, embedKey, children, scoped, path);
+        }
+
+        return data;
+    }
+
+    /**
+     * Embeds the next level into all records embedded under `embedKey`, across every parent at once,
+     * then removes the columns clients may not read, which were only selected to join that level.
+     */
+    private async applyNestedEmbeds(
+        data: any[],
+        relatedTableName: string,
+        embedKey: string,
+        tree: EmbedTree,
+        scoped: Record<string, ScopedParams>,
+        path: string
+    ): Promise<any[]> {
+        // belongs_to embeds share one object per related record, so collect them by identity
+        const embedded = [...new Set(data.flatMap(item => item[embedKey] == null ? [] : [item[embedKey]].flat()))];
+        if (embedded.length === 0) {
+            return data;
+        }
+
+        const relatedTableMetadata = this.tablesMetadata.get(relatedTableName);
+        const enriched = (await this.applyEmbedTree(embedded, relatedTableName, tree, scoped, path))
+            .map(record => omitUnreadable(record, relatedTableMetadata));
+        const enrichedMap = new Map(embedded.map((record, index) => [record, enriched[index]]));
+
+        return data.map(item => {
+            const value = item[embedKey];
+            if (value == null) return item;
+
+            return {
+                ...item,
+                [embedKey]: Array.isArray(value) ? value.map(record => enrichedMap.get(record)) : enrichedMap.get(value)
+            };
+        });
+    }
+
+    private async applyEmbed(
+        data: any[],
+        tableMetadata: TableMetadata,
+        relation: RelationMetadata,
+        embedKey: string,
+        scope: EmbedScope,
+        joinColumns: string[]
+    ): Promise<any[]> {
         if (relation.type === 'belongs_to') {
-            // For belongs_to: userId -> user
-            return relation.foreignKey.replace(/Id$/, '').toLowerCase();
-        } else {
-            // For has_many: use table name (posts, comments)
-            return relation.relatedTable;
+            return await this.embedBelongsTo(data, relation, embedKey, joinColumns);
+        } else if (relation.type === 'has_many') {
+            return await this.embedHasMany(data, tableMetadata, relation, embedKey, scope, joinColumns);
+        } else if (relation.type === 'has_one') {
+            // Inverse side of a one-to-one relation: the child list holds at most one record
+            const embedded = await this.embedHasMany(data, tableMetadata, relation, embedKey, { path: scope.path }, joinColumns);
+            return embedded.map(item => ({ ...item, [embedKey]: item[embedKey][0] ?? null }));
+        } else if (relation.type === 'many_to_many') {
+            return await this.embedManyToMany(data, tableMetadata, relation, embedKey, scope, joinColumns);
         }
+
+        return data;
+    }
+
+    private findRelation(tableMetadata: TableMetadata, embedKey: string): RelationMetadata | null {
+        return tableMetadata.relations.find(relation => relation.name === embedKey) || null;
     }
 
-    private async embedBelongsTo(data: any[], relation: RelationMetadata, embedKey: string): Promise<any[]> {
+    /**
+     * Embeds the parent record for each item with a single `IN` query over the
+     * foreign key values on the current page.
+     */
+    private async embedBelongsTo(data: any[], relation: RelationMetadata, embedKey: string, joinColumns: string[]): Promise<any[]> {
         const relatedTable = this.schema[relation.relatedTable];
         if (!relatedTable) {
-            console.warn(`Related table '${relation.relatedTable}' not found in schema`);
+            this.logger.warn({ table: relation.relatedTable }, 'Related table not found in schema');
             return data;
         }
 
         // Get unique foreign key values
-        const foreignKeyValues = [...new Set(
-            data.map(item => item[relation.foreignKey]).filter(id => id != null)
-        )];
+        const foreignKeyValues = this.uniqueValues(data, relation.foreignKey);
 
         if (foreignKeyValues.length === 0) {
             // Add null embed key to all items
             return data.map(item => ({ ...item, [embedKey]: null }));
         }
 
-        // Fetch related records
+        // Fetch related records by the referenced column (usually the primary key)
         const relatedTableMetadata = this.tablesMetadata.get(relation.relatedTable);
-        const primaryKeyColumn = relatedTableMetadata?.primaryKey[0] || 'id';
-        const relatedTableColumns = this.schema[relation.relatedTable];
+        const referencedColumn = relation.relatedColumn || relatedTableMetadata?.primaryKey[0] || 'id';
 
         const relatedRecords = await this.db
-            .select()
+            .select(this.selectColumns(relation.relatedTable, [referencedColumn, ...joinColumns]))
             .from(relatedTable)
-            .where(eq(relatedTableColumns[primaryKeyColumn], foreignKeyValues[0])); // TODO: Handle multiple values with IN clause
+            .where(inArray(relatedTable[referencedColumn], foreignKeyValues));
 
         // Create lookup map
         const relatedMap = new Map();
         for (const record of relatedRecords) {
-            relatedMap.set(record[primaryKeyColumn], record);
+            relatedMap.set(record[referencedColumn], record);
         }
 
         // Embed related data
@@ -113,42 +351,216 @@ export class EmbedBuilder {
         }));
     }
 
-    private async embedHasMany(data: any[], relation: RelationMetadata, embedKey: string): Promise<any[]> {
+    /**
+     * Embeds the child records for each item with a single `IN` query over the
+     * parent keys on the current page.
+     */
+    private async embedHasMany(
+        data: any[],
+        tableMetadata: TableMetadata,
+        relation: RelationMetadata,
+        embedKey: string,
+        scope: EmbedScope,
+        joinColumns: string[]
+    ): Promise<any[]> {
         const relatedTable = this.schema[relation.relatedTable];
         if (!relatedTable) {
-            console.warn(`Related table '${relation.relatedTable}' not found in schema`);
+            this.logger.warn({ table: relation.relatedTable }, 'Related table not found in schema');
             return data;
         }
 
-        // Get primary key values from main data
-        const mainTableMetadata = this.tablesMetadata.get(data[0]?.constructor?.name);
-        const primaryKeyColumn = mainTableMetadata?.primaryKey[0] || 'id';
-        const primaryKeyValues = data.map(item => item[primaryKeyColumn]).filter(id => id != null);
+        const parentKeyColumn = resolveParentKey(relation, tableMetadata);
+        const parentKeyValues = this.uniqueValues(data, parentKeyColumn);
 
-        if (primaryKeyValues.length === 0) {
+        if (parentKeyValues.length === 0) {
             // Add empty arrays to all items
             return data.map(item => ({ ...item, [embedKey]: [] }));
         }
 
-        // Fetch related records
-        const allRelatedRecords = await this.db
-            .select()
-            .from(relatedTable);
+        const relatedPrimaryKey = this.tablesMetadata.get(relation.relatedTable)?.primaryKey || [];
+        const related = await this.selectCollection(relation.relatedTable, {
+            parentKey: relatedTable[relation.foreignKey],
+            parentKeyValues,
+            defaultOrder: relatedPrimaryKey.map(column => asc(relatedTable[column])),
+            scope,
+            joinColumns
+        });
+
+        return this.groupByParent(data, parentKeyColumn, embedKey, related);
+    }
+
+    /**
+     * Embeds the records linked through a junction table with a single query joining
+     * the junction and related tables, scoped to the parent keys on the current page.
+     */
+    private async embedManyToMany(
+        data: any[],
+        tableMetadata: TableMetadata,
+        relation: RelationMetadata,
+        embedKey: string,
+        scope: EmbedScope,
+        joinColumns: string[]
+    ): Promise<any[]> {
+        const relatedTable = this.schema[relation.relatedTable];
+        const junctionTable = relation.through && this.schema[relation.through.table];
+        if (!relatedTable || !junctionTable) {
+            this.logger.warn({ relation: embedKey }, 'Tables for many-to-many relation not found in schema');
+            return data;
+        }
+
+        const { targetKey, targetColumn } = relation.through!;
+        const parentKeyColumn = resolveParentKey(relation, tableMetadata);
+        const parentKeyValues = this.uniqueValues(data, parentKeyColumn);
+
+        if (parentKeyValues.length === 0) {
+            // Add empty arrays to all items
+            return data.map(item => ({ ...item, [embedKey]: [] }));
+        }
+
+        // Keep the order in which links were created unless a scoped _sort is given
+        const junctionPrimaryKey = this.tablesMetadata.get(relation.through!.table)?.primaryKey || [];
+        const related = await this.selectCollection(relation.relatedTable, {
+            parentKey: junctionTable[relation.foreignKey],
+            parentKeyValues,
+            defaultOrder: junctionPrimaryKey.map(column => asc(junctionTable[column])),
+            scope,
+            joinColumns,
+            join: { table: junctionTable, on: eq(relatedTable[targetColumn], junctionTable[targetKey]) }
+        });
+
+        return this.groupByParent(data, parentKeyColumn, embedKey, related);
+    }
+
+    private async countRelated(relation: RelationMetadata, parentKeyValues: unknown[], scope: EmbedScope): Promise<Map<unknown, number>> {
+        if (parentKeyValues.length === 0) {
+            return new Map();
+        }
+
+        const relatedTable = this.schema[relation.relatedTable];
+        const junctionTable = relation.through && this.schema[relation.through.table];
+        const parentKey = junctionTable ? junctionTable[relation.foreignKey] : relatedTable[relation.foreignKey];
+
+        const query = this.db
+            .select({ parentKey, count: count() })
+            .from(junctionTable ?? relatedTable)
+            .$dynamic();
+        if (junctionTable) {
+            query.innerJoin(relatedTable, eq(relatedTable[relation.through!.targetColumn], junctionTable[relation.through!.targetKey]));
+        }
+
+        const rows: Array<{ parentKey: unknown; count: number }> = await query
+            .where(and(inArray(parentKey, parentKeyValues), ...this.buildScopeConditions(relation.relatedTable, scope)))
+            .groupBy(parentKey);
+
+        return new Map(rows.map(row => [row.parentKey, row.count]));
+    }
+
+    /**
+     * Loads the records of an embedded collection for the given parent keys, applying
+     * scoped filters and sorting. A scoped `_limit` is applied per parent in SQL with
+     * `row_number()`, so only the requested number of rows is returned for each parent.
+     */
+    private async selectCollection(
+        relatedTableName: string,
+        options: {
+            /** Column identifying the parent: the child foreign key, or the junction source key */
+            parentKey: any;
+            parentKeyValues: unknown[];
+            defaultOrder: SQL[];
+            scope: EmbedScope;
+            /** Columns the nested embeds join on, selected even when clients may not read them */
+            joinColumns: string[];
+            join?: { table: any; on: SQL };
+        }
+    ): Promise<Array<{ parentKey: unknown; record: any }>> {
+        const { parentKey, parentKeyValues, defaultOrder, scope, joinColumns, join } = options;
+        const relatedTable = this.schema[relatedTableName];
+        const columns = getReadableColumns(getTableColumns(relatedTable), this.tablesMetadata.get(relatedTableName));
+        const params = scope.scope;
+        const conditions = [inArray(parentKey, parentKeyValues), ...this.buildScopeConditions(relatedTableName, scope)];
+
+        const orderBy = [
+            ...(params?.sort || [])
+                .filter(sortField => columns[sortField.column])
+                .map(sortField => sortField.order === 'desc' ? desc(columns[sortField.column]) : asc(columns[sortField.column])),
+            ...defaultOrder
+        ];
+
+        const select = (fields: Record<string, any>) => {
+            const query = this.db.select(fields).from(relatedTable).$dynamic();
+            if (join) {
+                query.innerJoin(join.table, join.on);
+            }
+            return query.where(and(...conditions));
+        };
+
+        const fields = this.selectColumns(relatedTableName, joinColumns);
+        let rows: any[];
+        if (params?.limit !== undefined) {
+            // Keyless tables without a scoped _sort have no ordering, so any rows up to the limit are ranked first
+            const windowOrder = orderBy.length > 0 ? sql` order by ${sql.join(orderBy, sql`, `)}` : sql``;
+            const ranked = select({
+                ...fields,
+                [PARENT_KEY]: sql`${parentKey}`.as(PARENT_KEY),
+                [ROW_NUMBER]: sql<number>`row_number() over (partition by ${parentKey}${windowOrder})`.as(ROW_NUMBER)
+            }).as('ranked');
+
+            rows = await this.db
+                .select()
+                .from(ranked)
+                .where(lte(ranked[ROW_NUMBER], params.limit))
+                .orderBy(asc(ranked[ROW_NUMBER]));
+        } else {
+            rows = await select({ ...fields, [PARENT_KEY]: parentKey }).orderBy(...orderBy);
+        }
+
+        return rows.map(({ [PARENT_KEY]: key, [ROW_NUMBER]: _rowNumber, ...record }) => ({ parentKey: key, record }));
+    }
+
+    /**
+     * The readable columns of a table plus the given join columns, which may be hidden or write-only.
+     */
+    private selectColumns(tableName: string, joinColumns: string[]): Record<string, any> {
+        const columns = getTableColumns(this.schema[tableName]);
 
-        // Group by foreign key
+        return {
+            ...getReadableColumns(columns, this.tablesMetadata.get(tableName)),
+            ...Object.fromEntries(joinColumns.filter(name => columns[name]).map(name => [name, columns[name]]))
+        };
+    }
+
+    private buildScopeConditions(relatedTableName: string, { path, scope }: EmbedScope): SQL[] {
+        if (!scope || Object.keys(scope.filters).length === 0) return [];
+
+        const relatedTableMetadata = this.tablesMetadata.get(relatedTableName);
+        const columns = getReadableColumns(getTableColumns(this.schema[relatedTableName]), relatedTableMetadata);
+        const filterBuilder = new FilterBuilder(columns, relatedTableMetadata?.columns);
+        return filterBuilder.buildWhereConditions(scope.filters, `${path}.`);
+    }
+
+    private groupByParent(
+        data: any[],
+        parentKeyColumn: string,
+        embedKey: string,
+        related: Array<{ parentKey: unknown; record: any }>
+    ): any[] {
+        // Group by parent key
         const relatedMap = new Map();
-        allRelatedRecords.forEach((record: any) => {
-            const foreignKeyValue = record[relation.foreignKey];
-            if (!relatedMap.has(foreignKeyValue)) {
-                relatedMap.set(foreignKeyValue, []);
+        related.forEach(({ parentKey, record }) => {
+            if (!relatedMap.has(parentKey)) {
+                relatedMap.set(parentKey, []);
             }
-            relatedMap.get(foreignKeyValue).push(record);
+            relatedMap.get(parentKey).push(record);
         });
 
         // Embed related data
         return data.map(item => ({
             ...item,
-            [embedKey]: relatedMap.get(item[primaryKeyColumn]) || []
+            [embedKey]: relatedMap.get(item[parentKeyColumn]) || []
         }));
     }
+
+    private uniqueValues(data: any[], column: string): unknown[] {
+        return [...new Set(data.map(item => item[column]).filter(value => value != null))];
+    }
 }
@@ -2,6 +2,25 @@ import { Response } from 'express';
 
 import { defaultLogger, Logger } from './logger';
 
+// SQLSTATE raised by Postgres for a pattern that is not a valid regular expression
+const INVALID_REGULAR_EXPRESSION = '2201B';
+
+export interface QueryValidationIssue {
+    parameter: string;
+    message: string;
+}
+
+/**
+ * Raised when query parameters cannot be applied to the table,
+ * e.g. a filter value or record id that does not match the column type.
+ */
+export class QueryValidationError extends Error {
+    constructor(public readonly issues: QueryValidationIssue[]) {
+        super(issues.map(issue => `${issue.parameter}: ${issue.message}`).join('; '));
+        this.name = 'QueryValidationError';
+    }
+}
+
 export class ErrorHandler {
     private static logger: Logger = defaultLogger;
 
@@ -35,6 +54,16 @@ export class ErrorHandler {
             return;
         }
 
+        if (error instanceof QueryValidationError) {
+            this.logger.warn(errorContext, `Invalid query parameters in ${operation}`);
+            res.status(400).json({
+                error: 'Invalid query parameters',
+                details: error.issues,
+                requestId
+            });
+            return;
+        }
+
         if (error.issues) {
             // Zod validation error
             this.logger.warn(errorContext, `Validation error in ${operation}`);
@@ -46,6 +75,19 @@ export class ErrorHandler {
             return;
         }
 
+        // Drizzle wraps driver errors in a DrizzleQueryError that keeps the SQLSTATE on its cause
+        const databaseError = error.cause ?? error;
+        if (databaseError.code === INVALID_REGULAR_EXPRESSION) {
+            // Postgres compiles `_regex` patterns itself, so malformed ones only surface here
+            this.logger.warn(errorContext, `Invalid regular expression in ${operation}`);
+            res.status(400).json({
+                error: 'Invalid regular expression',
+                details: databaseError.message,
+                requestId
+            });
+            return;
+        }
+
         if (error.message?.includes('not found') || error.code === 'P2025') {
             // Not found error
             this.logger.info(errorContext, `Resource not found in ${operation}`);
@@ -76,6 +118,18 @@ export class ErrorHandler {
         });
     }
 
+    static handleMethodNotAllowed(res: Response, allowedMethods: string[], requestId?: string): void {
+        this.logger.info({
+            requestId,
+            allowedMethods
+        }, 'Method not allowed');
+
+        res.status(405).set('Allow', allowedMethods.join(', ')).json({
+            error: 'Method Not Allowed',
+            requestId
+        });
+    }
+
     static handleValidationError(res: Response, error: any, requestId?: string): void {
         this.logger.warn({
             requestId,
@@ -0,0 +1,158 @@
+import { getReadableColumns, hasUnreadableColumns, isReadable, omitUnreadable } from './column-rules';
+import { EmbedBuilder } from './embed-builder';
+import { QueryValidationError, QueryValidationIssue } from './error-handler';
+import { TableMetadata } from './schema-inspector';
+
+export interface FieldSelection {
+    /** Columns to select, or undefined to select every column */
+    projection?: Record<string, any>;
+    /** Trims a record (after embeds are applied) down to the requested fields */
+    apply(record: any): any;
+}
+
+/**
+ * Resolves `_fields` into a SQL projection for the root table and
+ * a trimming step for the root record and its embedded objects.
+ */
+export class FieldSelector {
+    /** Columns clients may read and request in `_fields` */
+    private readableColumns: Record<string, any>;
+
+    constructor(
+        private columns: Record<string, any>,
+        private tableName: string,
+        private embedBuilder: EmbedBuilder,
+        private tableMetadata?: TableMetadata
+    ) {
+        this.readableColumns = getReadableColumns(columns, tableMetadata);
+    }
+
+    /**
+     * @param requiredColumns columns that must be selected for internal use (e.g. cursors) and are trimmed afterwards
+     * @param computedFields fields added to the records after the query (e.g. `_count` results), always kept
+     */
+    resolve(
+        fields: string[] | undefined,
+        embedKeys: string[] = [],
+        requiredColumns: string[] = [],
+        computedFields: string[] = []
+    ): FieldSelection {
+        if (!fields || fields.length === 0) {
+            return this.resolveAllFields(embedKeys, requiredColumns);
+        }
+
+        const issues: QueryValidationIssue[] = [];
+        const rootFields: string[] = [];
+        const embedFields = new Map<string, string[]>();
+        // `_embed=comments.user` embeds both `comments` and `comments.user`
+        const embeddedPaths = new Set(embedKeys.flatMap(embedKey =>
+            embedKey.split('.').map((_, index, segments) => segments.slice(0, index + 1).join('.'))
+        ));
+
+        for (const field of fields) {
+            const separatorIndex = field.lastIndexOf('.');
+
+            if (separatorIndex === -1) {
+                if (this.readableColumns[field]) {
+                    rootFields.push(field);
+                } else {
+                    issues.push({ parameter: '_fields', message: `unknown field '${field}'` });
+                }
+                continue;
+            }
+
+            const embedKey = field.slice(0, separatorIndex);
+            const columnName = field.slice(separatorIndex + 1);
+            const resolved = this.embedBuilder.resolveEmbed(this.tableName, embedKey);
+
+            if (!embeddedPaths.has(embedKey) || !resolved) {
+                issues.push({ parameter: '_fields', message: `field '${field}' requires _embed=${embedKey}` });
+            } else if (!resolved.relatedTable.columns.some(column => column.name === columnName && isReadable(column))) {
+                issues.push({ parameter: '_fields', message: `unknown field '${field}'` });
+            } else {
+                embedFields.set(embedKey, [...(embedFields.get(embedKey) || []), columnName]);
+            }
+        }
+
+        if (issues.length > 0) {
+            throw new QueryValidationError(issues);
+        }
+
+        // Join columns are selected even when not requested, so embeds can still be resolved
+        const selectedColumns = rootFields.length > 0
+            ? [...new Set([
+                ...rootFields,
+                ...this.embedBuilder.getJoinColumns(this.tableName, embedKeys),
+                ...requiredColumns
+            ])]
+            : undefined;
+
+        const projection = selectedColumns && this.project(selectedColumns);
+
+        const sortedEmbedFields = [...embedFields].sort(([a], [b]) => b.split('.').length - a.split('.').length);
+        const childEmbeds = (parentPath: string) => [...embeddedPaths]
+            .filter(path => parentPath ? path.startsWith(`${parentPath}.`) : true)
+            .map(path => parentPath ? path.slice(parentPath.length + 1) : path)
+            .filter(path => !path.includes('.'));
+
+        return {
+            projection,
+            apply: record => {
+                let trimmed = rootFields.length > 0
+                    ? pick(record, [...rootFields, ...childEmbeds(''), ...computedFields])
+                    : { ...record };
+
+                // Deepest paths first, so trimming a level keeps the embeds nested below it
+                for (const [embedKey, embedColumns] of sortedEmbedFields) {
+                    const keys = [...embedColumns, ...childEmbeds(embedKey)];
+                    trimmed = mapAtPath(trimmed, embedKey.split('.'), item => pick(item, keys));
+                }
+
+                return trimmed;
+            }
+        };
+    }
+
+    /**
+     * Without `_fields` every readable column is returned. Tables with hidden or write-only
+     * columns still select the join and required columns among them, which are removed again
+     * once embeds and counts are applied.
+     */
+    private resolveAllFields(embedKeys: string[], requiredColumns: string[]): FieldSelection {
+        if (!hasUnreadableColumns(this.tableMetadata)) {
+            return { apply: record => record };
+        }
+
+        return {
+            projection: {
+                ...this.readableColumns,
+                ...this.project([...this.embedBuilder.getJoinColumns(this.tableName, embedKeys), ...requiredColumns])
+            },
+            apply: record => omitUnreadable(record, this.tableMetadata)
+        };
+    }
+
+    private project(columnNames: string[]): Record<string, any> {
+        return Object.fromEntries(
+            columnNames
+                .filter(columnName => this.columns[columnName])
+                .map(columnName => [columnName, this.columns[columnName]])
+        );
+    }
+}
+
+const pick = (record: Record<string, any>, keys: string[]): Record<string, any> => {
+    return Object.fromEntries(keys.filter(key => key in record).map(key => [key, record[key]]));
+};
+
+/**
+ * Applies fn to the embedded record(s) at the given path, copying every level on the way.
+ */
+const mapAtPath = (record: Record<string, any>, path: string[], fn: (item: any) => any): Record<string, any> => {
+    const [head, ...rest] = path;
+    const value = record[head];
+    if (value == null) return record;
+
+    const map = (item: any) => rest.length === 0 ? fn(item) : mapAtPath(item, rest, fn);
+    return { ...record, [head]: Array.isArray(value) ? value.map(map) : map(value) };
+};
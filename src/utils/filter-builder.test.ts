@@ -0,0 +1,49 @@
+import { getTableColumns } from 'drizzle-orm';
+import { bigint, pgTable, text } from 'drizzle-orm/pg-core';
+import { describe, expect, it } from 'vitest';
+
+import { QueryValidationError } from './error-handler';
+import { FilterBuilder } from './filter-builder';
+import { SchemaInspector } from './schema-inspector';
+
+const events = pgTable('events', {
+    id: bigint('id', { mode: 'bigint' }).primaryKey(),
+    sequence: bigint('sequence', { mode: 'number' }),
+    name: text('name')
+});
+
+const [metadata] = new SchemaInspector({ events }).extractTables();
+const filterBuilder = new FilterBuilder(getTableColumns(events), metadata.columns);
+
+const filterIssues = (filters: Record<string, any>) => {
+    try {
+        filterBuilder.buildWhereConditions(filters);
+    } catch (error) {
+        return error instanceof QueryValidationError ? error.issues : error;
+    }
+};
+
+describe('FilterBuilder', () => {
+    it('should reject bigint values outside the int64 range', () => {
+        expect(filterIssues({ id: '99999999999999999999', sequence_lt: '-9223372036854775809' })).toEqual([
+            { parameter: 'id', message: 'integer out of range' },
+            { parameter: 'sequence_lt', message: 'integer out of range' }
+        ]);
+        expect(filterIssues({ id: '9223372036854775807' })).toBeUndefined();
+    });
+
+    it('should reject number-mode bigint values that are not safe integers', () => {
+        expect(filterIssues({ sequence: '9007199254740993' }))
+            .toEqual([{ parameter: 'sequence', message: 'integer out of range' }]);
+        expect(filterIssues({ sequence_in: '1,9007199254740991' })).toBeUndefined();
+    });
+
+    it('should reject values that are not scalars or lists of scalars', () => {
+        expect(filterIssues({ name: { key: 'value' }, name_like: { key: 'value' }, sequence_in: [{ key: '1' }] })).toEqual([
+            { parameter: 'name', message: 'expected a value or a list of values' },
+            { parameter: 'name_like', message: 'expected a value or a list of values' },
+            { parameter: 'sequence_in', message: 'expected a value or a list of values' }
+        ]);
+        expect(filterIssues({ name: ['a', 'b'] })).toBeUndefined();
+    });
+});
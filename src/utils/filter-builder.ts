@@ -1,88 +1,269 @@
-import { eq, gte, inArray, like, lte, ne } from 'drizzle-orm';
+import {
+    and,
+    between,
+    eq,
+    gt,
+    gte,
+    ilike,
+    inArray,
+    isNotNull,
+    isNull,
+    like,
+    lt,
+    lte,
+    ne,
+    not,
+    notInArray,
+    or,
+    SQL,
+    sql
+} from 'drizzle-orm';
+
+import { QueryValidationError, QueryValidationIssue } from './error-handler';
+import { WhereNode } from './query-parser';
+import { ColumnMetadata } from './schema-inspector';
+import { coerceColumnValue, CoercionError, isTextColumn } from './value-coercion';
+
+export type FilterOperator =
+    | 'eq'
+    | 'ne'
+    | 'gt'
+    | 'gte'
+    | 'lt'
+    | 'lte'
+    | 'like'
+    | 'ilike'
+    | 'startswith'
+    | 'endswith'
+    | 'regex'
+    | 'in'
+    | 'nin'
+    | 'null'
+    | 'between';
 
 export class FilterBuilder {
-    constructor(private columns: Record<string, any>) { }
+    // Ordered so that longer suffixes win over their prefixes (e.g. `_gte` before `_gt`)
+    private static readonly OPERATOR_SUFFIXES: FilterOperator[] = [
+        'startswith',
+        'endswith',
+        'between',
+        'ilike',
+        'regex',
+        'like',
+        'null',
+        'gte',
+        'lte',
+        'nin',
+        'ne',
+        'gt',
+        'lt',
+        'in',
+    ];
+
+    private static readonly PATTERN_OPERATORS = new Set<FilterOperator>(['like', 'ilike', 'startswith', 'endswith', 'regex']);
+
+    private columnMetadata: Map<string, ColumnMetadata>;
+
+    constructor(private columns: Record<string, any>, columnMetadata: ColumnMetadata[] = []) {
+        this.columnMetadata = new Map(columnMetadata.map(column => [column.name, column]));
+    }
 
-    buildWhereConditions(filters: Record<string, any>): any[] {
+    /**
+     * Builds one condition per filter. Values are coerced to the column type;
+     * every value that cannot be coerced is reported in a single QueryValidationError.
+     */
+    buildWhereConditions(filters: Record<string, any>, parameterPrefix = ''): any[] {
         const whereConditions: any[] = [];
+        const issues: QueryValidationIssue[] = [];
 
         for (const [key, value] of Object.entries(filters)) {
-            const condition = this.buildCondition(key, value);
-            if (condition) {
-                whereConditions.push(condition);
+            try {
+                const condition = this.buildCondition(key, value);
+                if (condition) {
+                    whereConditions.push(condition);
+                }
+            } catch (error) {
+                if (!(error instanceof CoercionError)) throw error;
+                issues.push({ parameter: `${parameterPrefix}${key}`, message: error.message });
             }
         }
 
+        if (issues.length > 0) {
+            throw new QueryValidationError(issues);
+        }
+
         return whereConditions;
     }
 
-    private buildCondition(key: string, value: any): any | null {
-        // Handle JSON-Server filtering operators
-        if (key.endsWith('_like')) {
-            return this.buildLikeCondition(key, value);
+    /**
+     * Turns a `_where` condition tree into a nested Drizzle expression.
+     * Leaves use the same key syntax as query parameters and are combined with AND.
+     */
+    buildWhereExpression(node: WhereNode): SQL | undefined {
+        if ('and' in node && Array.isArray(node.and)) {
+            return and(...(node.and as WhereNode[]).map(child => this.buildWhereExpression(child)));
         }
 
-        if (key.endsWith('_ne')) {
-            return this.buildNotEqualCondition(key, value);
+        if ('or' in node && Array.isArray(node.or)) {
+            return or(...(node.or as WhereNode[]).map(child => this.buildWhereExpression(child)));
         }
 
-        if (key.endsWith('_gte')) {
-            return this.buildGreaterThanEqualCondition(key, value);
+        if ('not' in node && node.not && typeof node.not === 'object' && !Array.isArray(node.not)) {
+            const inner = this.buildWhereExpression(node.not as WhereNode);
+            return inner ? not(inner) : undefined;
         }
 
-        if (key.endsWith('_lte')) {
-            return this.buildLessThanEqualCondition(key, value);
-        }
+        const conditions = this.buildWhereConditions(node, '_where.');
+        return conditions.length > 0 ? and(...conditions) : undefined;
+    }
+
+    /**
+     * Lists filter keys (including `_where` leaves) that do not reference a known column.
+     */
+    findUnknownFilters(filters: Record<string, any>, where?: WhereNode): QueryValidationIssue[] {
+        const issues: QueryValidationIssue[] = Object.keys(filters)
+            .filter(key => !this.parseFilterKey(key))
+            .map(key => ({ parameter: key, message: 'unknown filter' }));
 
+        const visit = (node: WhereNode) => {
+            if ('and' in node && Array.isArray(node.and)) return (node.and as WhereNode[]).forEach(visit);
+            if ('or' in node && Array.isArray(node.or)) return (node.or as WhereNode[]).forEach(visit);
+            if ('not' in node && node.not && typeof node.not === 'object' && !Array.isArray(node.not)) {
+                return visit(node.not as WhereNode);
+            }
+
+            Object.keys(node)
+                .filter(key => !this.parseFilterKey(key))
+                .forEach(key => issues.push({ parameter: `_where.${key}`, message: 'unknown filter' }));
+        };
+
+        if (where) visit(where);
+
+        return issues;
+    }
+
+    /**
+     * Splits a filter key like `age_gte` into its column and operator.
+     * Returns null when the key does not reference a known column.
+     */
+    parseFilterKey(key: string): { columnName: string; operator: FilterOperator } | null {
         // Direct equality or array membership
         if (this.columns[key]) {
-            return this.buildEqualityCondition(key, value);
+            return { columnName: key, operator: 'eq' };
+        }
+
+        for (const operator of FilterBuilder.OPERATOR_SUFFIXES) {
+            const suffix = `_${operator}`;
+            if (!key.endsWith(suffix)) continue;
+
+            const columnName = key.slice(0, -suffix.length);
+            if (this.columns[columnName]) {
+                return { columnName, operator };
+            }
         }
 
         return null;
     }
 
-    private buildLikeCondition(key: string, value: any): any | null {
-        const columnName = key.replace('_like', '');
-        if (!this.columns[columnName]) return null;
+    private buildCondition(key: string, value: any): any | null {
+        const parsedKey = this.parseFilterKey(key);
+        if (!parsedKey) return null;
 
-        return like(this.columns[columnName], `%${value}%`);
+        const { columnName, operator } = parsedKey;
+        const column = this.columns[columnName];
+        const coerce = (raw: any) => this.coerceValue(columnName, raw);
+
+        const metadata = this.columnMetadata.get(columnName);
+        if (FilterBuilder.PATTERN_OPERATORS.has(operator) && metadata && !isTextColumn(metadata)) {
+            throw new CoercionError(`_${operator} requires a text column`);
+        }
+
+        switch (operator) {
+            case 'eq':
+                return this.buildEqualityCondition(column, value, coerce);
+            case 'ne':
+                return ne(column, coerce(value));
+            case 'gt':
+                return gt(column, coerce(value));
+            case 'gte':
+                return gte(column, coerce(value));
+            case 'lt':
+                return lt(column, coerce(value));
+            case 'lte':
+                return lte(column, coerce(value));
+            case 'like':
+                return like(column, `%${coerce(value)}%`);
+            case 'ilike':
+                return ilike(column, `%${coerce(value)}%`);
+            case 'startswith':
+                return like(column, `${this.escapeLikePattern(coerce(value))}%`);
+            case 'endswith':
+                return like(column, `%${this.escapeLikePattern(coerce(value))}`);
+            case 'regex':
+                return sql`${column} ~ ${coerce(value)}`;
+            case 'in':
+                return inArray(column, this.toList(value).map(coerce));
+            case 'nin':
+                return notInArray(column, this.toList(value).map(coerce));
+            case 'null':
+                return this.buildNullCondition(column, value);
+            case 'between':
+                return this.buildBetweenCondition(column, value, coerce);
+        }
+    }
+
+    private buildEqualityCondition(column: any, value: any, coerce: (raw: any) => any): any {
+        if (Array.isArray(value)) {
+            // Handle multiple values for the same parameter (array membership)
+            return inArray(column, value.map(coerce));
+        }
+
+        if (typeof value === 'string' && value.includes(',')) {
+            // Handle comma-separated values as array
+            return inArray(column, this.toList(value).map(coerce));
+        }
+
+        // Single value equality
+        return eq(column, coerce(value));
     }
 
-    private buildNotEqualCondition(key: string, value: any): any | null {
-        const columnName = key.replace('_ne', '');
-        if (!this.columns[columnName]) return null;
+    private buildNullCondition(column: any, value: any): any {
+        const normalized = String(value).toLowerCase();
+
+        if (normalized === 'true') return isNull(column);
+        if (normalized === 'false') return isNotNull(column);
 
-        return ne(this.columns[columnName], value);
+        throw new CoercionError('expected true or false');
     }
 
-    private buildGreaterThanEqualCondition(key: string, value: any): any | null {
-        const columnName = key.replace('_gte', '');
-        if (!this.columns[columnName]) return null;
+    private buildBetweenCondition(column: any, value: any, coerce: (raw: any) => any): any {
+        const bounds = this.toList(value);
+        if (bounds.length !== 2) {
+            throw new CoercionError('expected exactly two comma-separated bounds');
+        }
 
-        return gte(this.columns[columnName], value);
+        return between(column, coerce(bounds[0]), coerce(bounds[1]));
     }
 
-    private buildLessThanEqualCondition(key: string, value: any): any | null {
-        const columnName = key.replace('_lte', '');
-        if (!this.columns[columnName]) return null;
+    private coerceValue(columnName: string, value: any): any {
+        const metadata = this.columnMetadata.get(columnName);
+        return metadata ? coerceColumnValue(metadata, value) : value;
+    }
 
-        return lte(this.columns[columnName], value);
+    /** Escapes LIKE wildcards so that the value matches literally */
+    private escapeLikePattern(value: any): string {
+        return String(value).replace(/[\\%_]/g, '\\$&');
     }
 
-    private buildEqualityCondition(key: string, value: any): any {
+    private toList(value: any): any[] {
         if (Array.isArray(value)) {
-            // Handle multiple values for the same parameter (array membership)
-            return inArray(this.columns[key], value);
+            return value.flatMap(item => this.toList(item));
         }
 
-        if (typeof value === 'string' && value.includes(',')) {
-            // Handle comma-separated values as array
-            const values = value.split(',').map(v => v.trim());
-            return inArray(this.columns[key], values);
+        if (typeof value === 'string') {
+            return value.split(',').map(item => item.trim());
         }
 
-        // Single value equality
-        return eq(this.columns[key], value);
+        return [value];
     }
 }
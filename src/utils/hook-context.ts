@@ -1,21 +1,25 @@
 import { Request, Response } from 'express';
 
+import { RecordId } from './primary-key';
+
 export enum OperationType {
     GET_MANY = 'GET_MANY',
     GET_ONE = 'GET_ONE',
     CREATE = 'CREATE',
     UPDATE = 'UPDATE',
     REPLACE = 'REPLACE',
-    DELETE = 'DELETE'
+    DELETE = 'DELETE',
+    /** Refreshing a materialized view (`POST /<view>/refresh`) */
+    REFRESH = 'REFRESH'
 }
 
 export interface HookContext {
     req: Request & { user?: any };           // Access to req.user from framework auth
     res: Response;          // Access to response object
     operation: OperationType;
-    table: string;          // Table name
+    table: string;          // Resource name, e.g. 'users' or 'billing.invoices'
     record?: any;           // For CREATE/UPDATE operations
-    recordId?: string;      // For GET_ONE/UPDATE/DELETE operations
+    recordId?: RecordId;    // For GET_ONE/UPDATE/DELETE operations, typed like the primary key
     filters?: any;          // For GET_MANY operations
     metadata: {
         tableName: string;
@@ -38,14 +42,14 @@ export const createHookContext = (
     options: {
         filters?: any;
         record?: any;
-        recordId?: string;
+        recordId?: RecordId;
     } = {}
 ): HookContext => {
     return {
         req,
         res,
         operation,
-        table: tableMetadata.name,
+        table: tableMetadata.resourceName,
         filters: options.filters,
         record: options.record,
         recordId: options.recordId,
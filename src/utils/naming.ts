@@ -0,0 +1,27 @@
+/**
+ * How table names appear in routes, hook contexts and derived relation names.
+ * 'exported' keeps the schema export name (`postCategories`); the other strategies convert
+ * the SQL table name (`post_categories` becomes `post-categories`, `post_categories` or `postCategories`).
+ */
+export type NamingStrategy = 'exported' | 'kebab' | 'snake' | 'camel';
+
+/** Splits `postCategories`, `post_categories` and `post-categories` into lowercase words */
+const splitWords = (name: string): string[] => name
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .split(/[\s_-]+/)
+    .filter(Boolean)
+    .map(word => word.toLowerCase());
+
+export const applyNamingStrategy = (name: string, strategy: NamingStrategy): string => {
+    if (strategy === 'exported') return name;
+
+    const words = splitWords(name);
+    switch (strategy) {
+        case 'kebab':
+            return words.join('-');
+        case 'snake':
+            return words.join('_');
+        case 'camel':
+            return words.map((word, index) => index === 0 ? word : word.charAt(0).toUpperCase() + word.slice(1)).join('');
+    }
+};
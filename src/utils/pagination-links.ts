@@ -0,0 +1,113 @@
+import { Request } from 'express';
+
+import { CursorPage } from './cursor-pagination';
+import { ParsedQueryParams } from './query-parser';
+
+const PAGINATION_PARAMS = ['_page', '_per_page', '_start', '_end', '_limit', '_cursor', '_after', '_before'];
+
+export type PaginationRelation = 'first' | 'prev' | 'next' | 'last';
+
+export type PaginationLinkSet = Partial<Record<PaginationRelation, string>>;
+
+export interface PaginationMeta {
+    /** Total matching rows, or null when the count strategy is 'none' */
+    total: number | null;
+    /** Current page number, or null for cursor pagination */
+    page: number | null;
+    perPage: number;
+    /** Number of pages, or null when the total is unknown */
+    pages: number | null;
+}
+
+export interface PaginationState {
+    pagination: ParsedQueryParams['pagination'];
+    /** Rows fetched for the current page, used to detect a next page when the total is unknown */
+    fetchedCount: number;
+    total?: number;
+    /** Limit and offset of the page query (offset pagination only) */
+    window?: { limit: number; offset: number };
+    cursorPage?: CursorPage;
+}
+
+/**
+ * Builds RFC 8288 `Link` relations and envelope metadata for list responses.
+ *
+ * Links keep every non-pagination parameter of the current request (filters, `_sort`,
+ * `_embed`, ...) and follow the pagination style the client used: page-based,
+ * range-based (`_start` with `_end` or `_limit`) or cursor-based.
+ */
+export class PaginationLinks {
+    static build(req: Request, state: PaginationState): { links: PaginationLinkSet; meta: PaginationMeta } {
+        const { pagination, total, cursorPage, window } = state;
+        const baseUrl = new URL(req.originalUrl, `${req.protocol}://${req.get('host')}`);
+        const link = (params: Record<string, number | string>) => this.buildUrl(baseUrl, params);
+
+        if (pagination.cursor || !window) {
+            const perPage = pagination.limit ?? pagination.perPage;
+            const sizeParams: Record<string, number> = pagination.limit !== undefined ? { _limit: perPage } : { _per_page: perPage };
+
+            return {
+                links: {
+                    first: link({ ...sizeParams, _cursor: '' }),
+                    prev: cursorPage?.prevCursor ? link({ ...sizeParams, _before: cursorPage.prevCursor }) : undefined,
+                    next: cursorPage?.nextCursor ? link({ ...sizeParams, _after: cursorPage.nextCursor }) : undefined
+                },
+                meta: { total: total ?? null, page: null, perPage, pages: this.countPages(total, perPage) }
+            };
+        }
+
+        const { limit: perPage, offset } = window;
+        const pages = this.countPages(total, perPage);
+        const hasNext = total !== undefined ? offset + perPage < total : state.fetchedCount >= perPage;
+        const isRange = pagination.start !== undefined && (pagination.end !== undefined || pagination.limit !== undefined);
+
+        // Range links keep the form of the request (_start/_end or _start/_limit)
+        const at = (start: number) => isRange
+            ? link(pagination.end !== undefined ? { _start: start, _end: start + perPage } : { _start: start, _limit: perPage })
+            : link({ _page: Math.floor(start / Math.max(perPage, 1)) + 1, _per_page: perPage });
+
+        return {
+            links: {
+                first: at(0),
+                prev: offset > 0 ? at(Math.max(0, offset - perPage)) : undefined,
+                next: hasNext && perPage > 0 ? at(offset + perPage) : undefined,
+                last: pages !== null ? at(isRange ? Math.max(0, total! - perPage) : Math.max(0, pages - 1) * perPage) : undefined
+            },
+            meta: {
+                total: total ?? null,
+                page: Math.floor(offset / Math.max(perPage, 1)) + 1,
+                perPage,
+                pages
+            }
+        };
+    }
+
+    /**
+     * Formats links as an RFC 8288 `Link` header value, or undefined when there are none.
+     */
+    static formatHeader(links: PaginationLinkSet): string | undefined {
+        const values = (Object.entries(links) as Array<[PaginationRelation, string | undefined]>)
+            .filter(([, url]) => url !== undefined)
+            .map(([relation, url]) => `<${url}>; rel="${relation}"`);
+
+        return values.length > 0 ? values.join(', ') : undefined;
+    }
+
+    private static countPages(total: number | undefined, perPage: number): number | null {
+        if (total === undefined || perPage <= 0) return null;
+        return Math.ceil(total / perPage);
+    }
+
+    private static buildUrl(baseUrl: URL, params: Record<string, number | string>): string {
+        const url = new URL(baseUrl);
+
+        for (const param of PAGINATION_PARAMS) {
+            url.searchParams.delete(param);
+        }
+        for (const [param, value] of Object.entries(params)) {
+            url.searchParams.set(param, String(value));
+        }
+
+        return url.toString();
+    }
+}
@@ -0,0 +1,92 @@
+import { getTableColumns } from 'drizzle-orm';
+import { bigint, pgTable, primaryKey, text, uuid, varchar } from 'drizzle-orm/pg-core';
+import { describe, expect, it } from 'vitest';
+
+import { QueryValidationError } from './error-handler';
+import { PrimaryKey } from './primary-key';
+import { SchemaInspector } from './schema-inspector';
+
+const documents = pgTable('documents', {
+    id: uuid('id').primaryKey(),
+    title: text('title')
+});
+
+const events = pgTable('events', {
+    id: bigint('id', { mode: 'bigint' }).primaryKey(),
+    name: text('name')
+});
+
+const counters = pgTable('counters', {
+    id: bigint('id', { mode: 'number' }).primaryKey(),
+    name: text('name')
+});
+
+const pages = pgTable('pages', {
+    locale: varchar('locale', { length: 5 }).notNull(),
+    slug: text('slug').notNull()
+}, (t) => [primaryKey({ columns: [t.locale, t.slug] })]);
+
+const schema = { counters, documents, events, pages };
+const tables = new SchemaInspector(schema).extractTables();
+
+const createPrimaryKey = (name: keyof typeof schema, separator?: string) =>
+    new PrimaryKey(getTableColumns(schema[name]), tables.find(table => table.name === name)!, separator);
+
+const parseError = (primaryKey: PrimaryKey, id: string) => {
+    try {
+        primaryKey.parse(id);
+    } catch (error) {
+        return error instanceof QueryValidationError ? error.issues : error;
+    }
+};
+
+describe('PrimaryKey', () => {
+    it('should parse ids by the key column type', () => {
+        expect(createPrimaryKey('documents').parse('0f8fad5b-d9cb-469f-a165-70867728950e'))
+            .toBe('0f8fad5b-d9cb-469f-a165-70867728950e');
+        expect(createPrimaryKey('events').parse('9007199254740993')).toBe(9007199254740993n);
+    });
+
+    it('should reject malformed ids', () => {
+        expect(parseError(createPrimaryKey('documents'), 'not-a-uuid'))
+            .toEqual([{ parameter: 'id', message: 'expected a UUID' }]);
+        expect(parseError(createPrimaryKey('events'), '12abc'))
+            .toEqual([{ parameter: 'id', message: 'expected an integer' }]);
+    });
+
+    it('should reject bigint ids outside the int64 range', () => {
+        expect(parseError(createPrimaryKey('events'), '9223372036854775808'))
+            .toEqual([{ parameter: 'id', message: 'integer out of range' }]);
+        expect(createPrimaryKey('events').parse('-9223372036854775808')).toBe(-9223372036854775808n);
+    });
+
+    it('should reject number-mode bigint ids that are not safe integers', () => {
+        expect(parseError(createPrimaryKey('counters'), '9007199254740993'))
+            .toEqual([{ parameter: 'id', message: 'integer out of range' }]);
+        expect(createPrimaryKey('counters').parse('9007199254740991')).toBe(9007199254740991);
+    });
+
+    it('should split composite ids into values by column', () => {
+        expect(createPrimaryKey('pages').parse('en,getting-started'))
+            .toEqual({ locale: 'en', slug: 'getting-started' });
+        expect(createPrimaryKey('pages', '~').parse('en~a,b')).toEqual({ locale: 'en', slug: 'a,b' });
+        expect(parseError(createPrimaryKey('pages'), 'en')).toEqual([
+            { parameter: 'id', message: 'expected 2 values separated by \',\' (locale, slug)' }
+        ]);
+    });
+
+    it('should keep text ids that contain the separator', () => {
+        const slugKey = new PrimaryKey(getTableColumns(pages), {
+            ...tables.find(table => table.name === 'pages')!,
+            primaryKey: ['slug']
+        });
+
+        expect(slugKey.parse('a,b')).toBe('a,b');
+    });
+
+    it('should read ids from records in the parsed shape', () => {
+        expect(createPrimaryKey('pages').fromRecord({ locale: 'en', slug: 'intro', body: '...' }))
+            .toEqual({ locale: 'en', slug: 'intro' });
+        expect(createPrimaryKey('events').fromRecord({ id: 5n, name: 'launch' })).toBe(5n);
+    });
+});
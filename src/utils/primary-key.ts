@@ -0,0 +1,87 @@
+import { and, eq, SQL } from 'drizzle-orm';
+
+import { QueryValidationError } from './error-handler';
+import { ColumnMetadata, TableMetadata } from './schema-inspector';
+import { coerceColumnValue, CoercionError } from './value-coercion';
+
+export const DEFAULT_ID_SEPARATOR = ',';
+
+/** Parsed primary key of a record: the column value, or the values by column for composite keys */
+export type RecordId = string | number | bigint | Record<string, unknown>;
+
+/**
+ * Addresses single records by primary key in item routes (`/posts/:id`).
+ *
+ * Ids are parsed according to the key column type (serial, bigint, uuid, text, ...), so
+ * malformed ids are rejected before any hook or query runs. A composite key is written as
+ * its values joined by the separator, in key column order: `/post_tags/3,7` for
+ * `primaryKey({ columns: [t.postId, t.tagId] })`. Single-column ids are used as they are,
+ * so text keys may contain the separator.
+ *
+ * Lookup routes (`/posts/by/slug/:value`) use the same parsing with a unique column as the key.
+ */
+export class PrimaryKey {
+    private keyColumns: ColumnMetadata[];
+
+    constructor(
+        private columns: Record<string, any>,
+        tableMetadata: TableMetadata,
+        private separator: string = DEFAULT_ID_SEPARATOR,
+        keyColumnNames: string[] = tableMetadata.primaryKey
+    ) {
+        this.keyColumns = keyColumnNames.map(name => tableMetadata.columns.find(column => column.name === name)!);
+    }
+
+    get columnNames(): string[] {
+        return this.keyColumns.map(column => column.name);
+    }
+
+    get isComposite(): boolean {
+        return this.keyColumns.length > 1;
+    }
+
+    /**
+     * Converts an id from the URL into the key value(s) Drizzle expects.
+     * Throws a QueryValidationError naming `parameter` when the id is malformed.
+     */
+    parse(id: string, parameter = 'id'): RecordId {
+        const rawValues = this.isComposite ? id.split(this.separator) : [id];
+        if (rawValues.length !== this.keyColumns.length) {
+            throw new QueryValidationError([{
+                parameter,
+                message: `expected ${this.keyColumns.length} values separated by '${this.separator}' (${this.columnNames.join(', ')})`
+            }]);
+        }
+
+        const values = this.keyColumns.map((column, index) => {
+            try {
+                return coerceColumnValue(column, rawValues[index]);
+            } catch (error) {
+                if (!(error instanceof CoercionError)) throw error;
+
+                const message = this.isComposite ? `${column.name}: ${error.message}` : error.message;
+                throw new QueryValidationError([{ parameter, message }]);
+            }
+        });
+
+        return this.isComposite
+            ? Object.fromEntries(this.columnNames.map((name, index) => [name, values[index]]))
+            : values[0] as RecordId;
+    }
+
+    /** Builds the condition matching the record with the given parsed id on every key column */
+    where(recordId: RecordId): SQL {
+        const values = this.isComposite
+            ? recordId as Record<string, unknown>
+            : { [this.columnNames[0]]: recordId };
+
+        return and(...this.columnNames.map(name => eq(this.columns[name], values[name])))!;
+    }
+
+    /** Reads the parsed id of a record, in the same shape as `parse` returns */
+    fromRecord(record: Record<string, any>): RecordId {
+        return this.isComposite
+            ? Object.fromEntries(this.columnNames.map(name => [name, record[name]]))
+            : record[this.columnNames[0]];
+    }
+}
@@ -1,77 +1,354 @@
-import { and,asc, desc } from 'drizzle-orm';
-import { PgTable } from 'drizzle-orm/pg-core';
+import { and, asc, count, desc, SQL, sql } from 'drizzle-orm';
+import { getMaterializedViewConfig, getTableConfig, PgMaterializedView, PgTable } from 'drizzle-orm/pg-core';
 
-import { EmbedBuilder } from './embed-builder';
+import { getReadableColumns } from './column-rules';
+import { CursorPagination } from './cursor-pagination';
+import { countFieldName, EmbedBuilder } from './embed-builder';
+import { QueryValidationError, QueryValidationIssue } from './error-handler';
+import { FieldSelection, FieldSelector } from './field-selector';
 import { FilterBuilder } from './filter-builder';
-import { ParsedQueryParams } from './query-parser';
+import { Logger } from './logger';
+import { MAX_PER_PAGE, ParsedQueryParams, ScopedParams } from './query-parser';
+import { RelationJoin, RelationPathBuilder } from './relation-path-builder';
 import { TableMetadata } from './schema-inspector';
 
 type DrizzleDb = any; // Using generic type for compatibility
 
+export type CountStrategy = 'exact' | 'estimated' | 'none';
+
+export interface QueryBuilderOptions {
+    /** Maximum number of segments in an `_embed` path (default: 3) */
+    maxEmbedDepth?: number;
+    /** Condition every list query and count is restricted to, e.g. the parent of a nested route */
+    baseCondition?: SQL;
+    /** Logger for embed warnings (default: the adapter's default logger) */
+    logger?: Logger;
+}
+
 export class QueryBuilder {
     private filterBuilder: FilterBuilder;
     private embedBuilder: EmbedBuilder;
+    private fieldSelector: FieldSelector;
+    private relationPathBuilder: RelationPathBuilder;
+    private baseCondition?: SQL;
+    /** Columns clients may read; hidden and write-only columns are not returned, filtered or sorted */
+    private columns: Record<string, any>;
 
     constructor(
         private db: DrizzleDb,
         private table: PgTable,
-        private columns: Record<string, any>,
+        columns: Record<string, any>,
         private schema: Record<string, any>,
         private tablesMetadata: Map<string, TableMetadata>,
-        private tableName: string
+        private tableName: string,
+        options: QueryBuilderOptions = {}
     ) {
-        this.filterBuilder = new FilterBuilder(columns);
-        this.embedBuilder = new EmbedBuilder(db, schema, tablesMetadata);
+        this.columns = getReadableColumns(columns, tablesMetadata.get(tableName));
+        this.filterBuilder = new FilterBuilder(this.columns, tablesMetadata.get(tableName)?.columns);
+        this.embedBuilder = new EmbedBuilder(db, schema, tablesMetadata, options.maxEmbedDepth, options.logger);
+        // Hidden join columns are still selected for embeds and removed from the response afterwards
+        this.fieldSelector = new FieldSelector(columns, tableName, this.embedBuilder, tablesMetadata.get(tableName));
+        // Relation paths join through foreign keys, which may be hidden themselves
+        this.relationPathBuilder = new RelationPathBuilder(db, columns, schema, tablesMetadata, tableName);
+        this.baseCondition = options.baseCondition;
     }
 
     buildSelectQuery(params: ParsedQueryParams) {
-        const query = this.db.select().from(this.table).$dynamic();
+        this.validateEmbeds(params.embed);
+        this.validateCounts(params.count);
+
+        const cursorPagination = this.createCursorPagination(params);
+        const countKeys = params.count || [];
+        const fieldSelection = this.selectFields(
+            params.fields,
+            params.embed,
+            [...(cursorPagination?.requiredColumns || []), ...this.embedBuilder.getJoinColumns(this.tableName, countKeys)],
+            countKeys.map(countFieldName)
+        );
+        const { orderBy, joins } = this.buildOrderBy(params.sort);
+
+        // Joined tables would otherwise be returned as nested objects
+        const projection = fieldSelection.projection ?? (joins.length > 0 ? this.columns : undefined);
+        const query = this.db.select(projection).from(this.table).$dynamic();
+        joins.forEach(join => query.leftJoin(join.table, join.on));
 
         // Apply filters
-        const whereConditions = this.filterBuilder.buildWhereConditions(params.filters);
+        const whereConditions = this.buildWhereConditions(params);
+
+        if (cursorPagination) {
+            // Keyset pagination: rows past the cursor, in a total order, without offset.
+            // The cursor condition is kept out of whereConditions so counts cover every page.
+            const cursorCondition = cursorPagination.condition;
+            const conditions = cursorCondition ? [...whereConditions, cursorCondition] : whereConditions;
+            if (conditions.length > 0) {
+                query.where(and(...conditions));
+            }
+
+            query.orderBy(...cursorPagination.orderBy).limit(cursorPagination.limit);
+
+            return { query, whereConditions, embedKeys: params.embed, fieldSelection, cursorPagination };
+        }
+
         if (whereConditions.length > 0) {
             query.where(and(...whereConditions));
         }
 
         // Apply sorting
-        if (params.sort && params.sort.length > 0) {
-            const orderByExpressions = params.sort
-                .filter(sortField => this.columns[sortField.column]) // Only sort by valid columns
-                .map(sortField => {
-                    const sortFn = sortField.order === 'desc' ? desc : asc;
-                    return sortFn(this.columns[sortField.column]);
-                });
-
-            if (orderByExpressions.length > 0) {
-                query.orderBy(...orderByExpressions);
-            }
+        if (orderBy.length > 0) {
+            query.orderBy(...orderBy);
         }
 
         // Apply pagination
-        const { limit, offset } = this.calculatePagination(params.pagination);
-        query.limit(limit).offset(offset);
+        const window = this.calculatePagination(params.pagination);
+        query.limit(window.limit).offset(window.offset);
+
+        return { query, whereConditions, embedKeys: params.embed, fieldSelection, window };
+    }
+
+    /**
+     * Builds the query for a single record matching the given condition.
+     */
+    buildSelectOneQuery(condition: SQL, fieldSelection: FieldSelection) {
+        return this.db.select(fieldSelection.projection).from(this.table).where(condition);
+    }
 
-        return { query, whereConditions, embedKeys: params.embed };
+    /**
+     * Resolves `_fields` against this table and the requested embeds.
+     * Throws a QueryValidationError for unknown fields.
+     */
+    selectFields(fields?: string[], embedKeys?: string[], requiredColumns?: string[], computedFields?: string[]): FieldSelection {
+        return this.fieldSelector.resolve(fields, embedKeys, requiredColumns, computedFields);
     }
 
-    async getTotalCount(filters: Record<string, any>): Promise<number> {
-        const countQuery = this.db.select().from(this.table).$dynamic();
+    /**
+     * Counts the rows matching the given WHERE conditions (as returned by buildSelectQuery).
+     *
+     * - `exact`: runs `count(*)` in SQL
+     * - `estimated`: reads the planner estimate from `pg_class.reltuples` for unfiltered
+     *   requests, falling back to `exact` when filtered or when the table was never analyzed
+     * - `none`: skips counting and returns undefined
+     */
+    async getTotalCount(whereConditions: SQL[], strategy: CountStrategy = 'exact'): Promise<number | undefined> {
+        if (strategy === 'none') {
+            return undefined;
+        }
 
-        const whereConditions = this.filterBuilder.buildWhereConditions(filters);
+        if (strategy === 'estimated' && whereConditions.length === 0) {
+            const estimate = await this.getEstimatedCount();
+            if (estimate !== undefined) {
+                return estimate;
+            }
+        }
+
+        const countQuery = this.db.select({ count: count() }).from(this.table).$dynamic();
         if (whereConditions.length > 0) {
             countQuery.where(and(...whereConditions));
         }
 
-        const totalRecords = await countQuery;
-        return totalRecords.length;
+        const [{ count: totalCount }] = await countQuery;
+        return totalCount;
     }
 
-    async applyEmbeds(data: any[], embedKeys?: string[]): Promise<any[]> {
+    private async getEstimatedCount(): Promise<number | undefined> {
+        const kind = this.tablesMetadata.get(this.tableName)?.kind;
+        // Plain views store no rows, so Postgres has no statistics for them
+        if (kind === 'view') return undefined;
+
+        const { name, schema } = kind === 'materialized_view'
+            ? getMaterializedViewConfig(this.table as unknown as PgMaterializedView)
+            : getTableConfig(this.table);
+        const qualifiedName = `"${schema ?? 'public'}"."${name}"`;
+
+        const result = await this.db.execute(
+            sql`select reltuples::bigint as estimate from pg_class where oid = to_regclass(${qualifiedName})`
+        );
+        const rows = Array.isArray(result) ? result : result.rows;
+        const estimate = Number(rows?.[0]?.estimate);
+
+        // reltuples is -1 for tables that have never been vacuumed or analyzed
+        return Number.isFinite(estimate) && estimate >= 0 ? estimate : undefined;
+    }
+
+    /**
+     * Collects every filter, sort field and embed that does not apply to this table.
+     * Used by strict query mode, which rejects such requests instead of ignoring them.
+     */
+    findInvalidParams(params: ParsedQueryParams): QueryValidationIssue[] {
+        const { filters, relationFilters } = this.partitionFilters(params);
+        const issues = [
+            ...this.filterBuilder.findUnknownFilters(filters, params.where),
+            ...this.relationPathBuilder.findUnknownFilters(relationFilters)
+        ];
+
+        params.sort
+            ?.filter(sortField => RelationPathBuilder.isRelationKey(sortField.column)
+                ? !this.relationPathBuilder.resolveSortField(sortField.column)
+                : !this.columns[sortField.column])
+            .forEach(sortField => issues.push({
+                parameter: '_sort',
+                message: `unknown sort field '${sortField.column}'`
+            }));
+
+        if (params.embed) {
+            issues.push(...this.embedBuilder.findInvalidEmbeds(this.tableName, params.embed));
+        }
+
+        if (params.count) {
+            issues.push(...this.embedBuilder.findInvalidCounts(this.tableName, params.count));
+        }
+
+        if (params.scoped) {
+            issues.push(...this.embedBuilder.findInvalidScopes(this.tableName, params.scoped));
+        }
+
+        return issues;
+    }
+
+    /**
+     * Throws a QueryValidationError for embed paths that do not resolve or are nested too deeply.
+     */
+    validateEmbeds(embedKeys?: string[]): void {
+        if (!embedKeys || embedKeys.length === 0) return;
+
+        const issues = this.embedBuilder.findInvalidEmbeds(this.tableName, embedKeys);
+        if (issues.length > 0) {
+            throw new QueryValidationError(issues);
+        }
+    }
+
+    /**
+     * @param scoped filters, sorting and limits for embedded collections, keyed by embed path
+     */
+    async applyEmbeds(data: any[], embedKeys?: string[], scoped?: Record<string, ScopedParams>): Promise<any[]> {
         if (!embedKeys || embedKeys.length === 0) {
             return data;
         }
 
-        return await this.embedBuilder.applyEmbeds(data, this.tableName, embedKeys);
+        return await this.embedBuilder.applyEmbeds(data, this.tableName, embedKeys, scoped);
+    }
+
+    /**
+     * Adds a `<relation>Count` field for each relation named in `_count`.
+     */
+    async applyCounts(data: any[], countKeys?: string[], scoped?: Record<string, ScopedParams>): Promise<any[]> {
+        if (!countKeys || countKeys.length === 0) {
+            return data;
+        }
+
+        return await this.embedBuilder.applyCounts(data, this.tableName, countKeys, scoped);
+    }
+
+    private validateCounts(countKeys?: string[]): void {
+        if (!countKeys || countKeys.length === 0) return;
+
+        const issues = this.embedBuilder.findInvalidCounts(this.tableName, countKeys);
+        if (issues.length > 0) {
+            throw new QueryValidationError(issues);
+        }
+    }
+
+    private buildWhereConditions(params: Pick<ParsedQueryParams, 'filters' | 'where' | 'scoped'>): any[] {
+        const { filters, relationFilters } = this.partitionFilters(params);
+        const whereConditions = [
+            ...(this.baseCondition ? [this.baseCondition] : []),
+            ...this.filterBuilder.buildWhereConditions(filters),
+            ...this.relationPathBuilder.buildWhereConditions(relationFilters)
+        ];
+
+        if (params.where) {
+            // Unknown keys are rejected even outside strict mode: dropping a leaf inside `or`/`not` would widen the result set
+            const unknownFilters = this.filterBuilder.findUnknownFilters({}, params.where);
+            if (unknownFilters.length > 0) {
+                throw new QueryValidationError(unknownFilters);
+            }
+
+            const whereExpression = this.filterBuilder.buildWhereExpression(params.where);
+            if (whereExpression) {
+                whereConditions.push(whereExpression);
+            }
+        }
+
+        return whereConditions;
+    }
+
+    /**
+     * Splits filters on this table's columns from filters on a relation path. Filters on a
+     * `belongs_to` embed (`_embed=user&user.fullName=Alice`) are parsed as scoped parameters,
+     * but filter the root list like any other relation filter.
+     */
+    private partitionFilters(params: Pick<ParsedQueryParams, 'filters' | 'scoped'>) {
+        const filters: Record<string, any> = {};
+        const relationFilters: Record<string, any> = {};
+
+        for (const [key, value] of Object.entries(params.filters)) {
+            (RelationPathBuilder.isRelationKey(key) ? relationFilters : filters)[key] = value;
+        }
+
+        for (const [path, scope] of Object.entries(params.scoped || {})) {
+            if (this.embedBuilder.isCollection(this.tableName, path)) continue;
+
+            for (const [key, value] of Object.entries(scope.filters)) {
+                relationFilters[`${path}.${key}`] = value;
+            }
+        }
+
+        return { filters, relationFilters };
+    }
+
+    private buildOrderBy(sort: ParsedQueryParams['sort']): { orderBy: SQL[]; joins: RelationJoin[] } {
+        const orderBy: SQL[] = [];
+        const joins = new Map<string, RelationJoin>();
+
+        for (const sortField of sort || []) {
+            const sortFn = sortField.order === 'desc' ? desc : asc;
+
+            // Only sort by valid columns
+            if (!RelationPathBuilder.isRelationKey(sortField.column)) {
+                if (this.columns[sortField.column]) {
+                    orderBy.push(sortFn(this.columns[sortField.column]));
+                }
+                continue;
+            }
+
+            const resolved = this.relationPathBuilder.resolveSortField(sortField.column);
+            if (resolved) {
+                resolved.joins.forEach(join => joins.set(join.name, joins.get(join.name) ?? join));
+                orderBy.push(sortFn(resolved.column));
+            }
+        }
+
+        return { orderBy, joins: [...joins.values()] };
+    }
+
+    private createCursorPagination(params: ParsedQueryParams): CursorPagination | undefined {
+        const { cursor, limit, perPage } = params.pagination;
+        if (!cursor) return undefined;
+
+        const relationSortField = params.sort?.find(sortField => RelationPathBuilder.isRelationKey(sortField.column));
+        if (relationSortField) {
+            throw new QueryValidationError([{
+                parameter: '_sort',
+                message: `cursor pagination does not support sorting by related field '${relationSortField.column}'`
+            }]);
+        }
+
+        const tableMetadata = this.tablesMetadata.get(this.tableName);
+        if (tableMetadata && tableMetadata.primaryKey.length === 0) {
+            // Without a key the ordering has ties, and rows sharing a cursor position would be skipped
+            throw new QueryValidationError([{
+                parameter: '_cursor',
+                message: 'cursor pagination requires a primary key; use _page or _start instead'
+            }]);
+        }
+
+        return new CursorPagination(
+            this.columns,
+            tableMetadata?.columns || [],
+            tableMetadata?.primaryKey || [],
+            params.sort,
+            cursor,
+            Math.min(limit ?? perPage, MAX_PER_PAGE)
+        );
     }
 
     private calculatePagination(pagination: ParsedQueryParams['pagination']) {
@@ -1,6 +1,9 @@
 import { Request } from 'express';
 import { z } from 'zod';
 
+import { QueryValidationError } from './error-handler';
+import { defaultLogger, Logger } from './logger';
+
 // Define Zod schemas for validation and parsing
 const SortSchema = z.string().optional().transform((value) => {
     if (!value) return undefined;
@@ -22,21 +25,140 @@ const SortSchema = z.string().optional().transform((value) => {
     });
 });
 
-const EmbedSchema = z.union([
+// Comma-separated or repeated list parameter (`_embed`, `_fields`)
+const ListSchema = z.union([
     z.string().transform(str => str.split(',').map(item => item.trim()).filter(Boolean)),
     z.array(z.string()).transform(arr => arr.map(item => item.trim()).filter(Boolean))
 ]).optional();
 
+/** Largest page size for `_per_page`, and for `_limit` in cursor pagination */
+export const MAX_PER_PAGE = 100;
+
+// Limits for `_where` condition trees to stop abusive payloads
+const MAX_WHERE_DEPTH = 5;
+const MAX_WHERE_NODES = 50;
+const MAX_WHERE_LEAF_FILTERS = 10;
+
+const WHERE_GROUP_KEYS = ['and', 'or', 'not'];
+
+const FilterValueSchema = z.union([
+    z.string(),
+    z.number(),
+    z.boolean(),
+    z.array(z.union([z.string(), z.number(), z.boolean()]))
+]);
+
+export type WhereNode =
+    | { and: WhereNode[] }
+    | { or: WhereNode[] }
+    | { not: WhereNode }
+    | Record<string, z.infer<typeof FilterValueSchema>>;
+
+const WhereNodeSchema: z.ZodType<WhereNode> = z.lazy(() => z.union([
+    z.object({ and: z.array(WhereNodeSchema).min(1) }).strict(),
+    z.object({ or: z.array(WhereNodeSchema).min(1) }).strict(),
+    z.object({ not: WhereNodeSchema }).strict(),
+    z.record(FilterValueSchema).refine(
+        leaf => Object.keys(leaf).length > 0 && !Object.keys(leaf).some(key => WHERE_GROUP_KEYS.includes(key)),
+        { message: 'Condition must be a non-empty filter object or a single and/or/not group' }
+    )
+]));
+
+// Measures the raw JSON before Zod walks it, so oversized trees are rejected cheaply
+const measureWhere = (node: unknown, depth = 1): { depth: number; nodes: number; leafFilters: number } => {
+    let children: unknown[] = [];
+    let leafFilters = 0;
+    if (node && typeof node === 'object' && !Array.isArray(node)) {
+        const group = node as Record<string, unknown>;
+        if (Array.isArray(group.and)) children = group.and;
+        else if (Array.isArray(group.or)) children = group.or;
+        else if (group.not !== undefined) children = [group.not];
+        else leafFilters = Object.keys(group).length;
+    }
+
+    return children.reduce<{ depth: number; nodes: number; leafFilters: number }>((acc, child) => {
+        const measured = measureWhere(child, depth + 1);
+        return {
+            depth: Math.max(acc.depth, measured.depth),
+            nodes: acc.nodes + measured.nodes,
+            leafFilters: Math.max(acc.leafFilters, measured.leafFilters)
+        };
+    }, { depth, nodes: 1, leafFilters });
+};
+
+const WhereSchema = z.string()
+    .transform((value, ctx) => {
+        let node: unknown;
+        try {
+            node = JSON.parse(value);
+        } catch {
+            ctx.addIssue({ code: z.ZodIssueCode.custom, message: '_where must be valid JSON' });
+            return z.NEVER;
+        }
+
+        const { depth, nodes, leafFilters } = measureWhere(node);
+        if (depth > MAX_WHERE_DEPTH) {
+            ctx.addIssue({
+                code: z.ZodIssueCode.custom,
+                message: `_where exceeds the maximum nesting depth of ${MAX_WHERE_DEPTH}`
+            });
+            return z.NEVER;
+        }
+        if (nodes > MAX_WHERE_NODES) {
+            ctx.addIssue({
+                code: z.ZodIssueCode.custom,
+                message: `_where exceeds the maximum of ${MAX_WHERE_NODES} conditions`
+            });
+            return z.NEVER;
+        }
+        if (leafFilters > MAX_WHERE_LEAF_FILTERS) {
+            ctx.addIssue({
+                code: z.ZodIssueCode.custom,
+                message: `_where conditions are limited to ${MAX_WHERE_LEAF_FILTERS} filters each`
+            });
+            return z.NEVER;
+        }
+
+        return node;
+    })
+    .pipe(WhereNodeSchema)
+    .optional();
+
 const QueryParamsSchema = z.object({
     _page: z.coerce.number().min(1).default(1),
-    _per_page: z.coerce.number().min(1).max(100).default(10),
+    _per_page: z.coerce.number().min(1).max(MAX_PER_PAGE).default(10),
     _start: z.coerce.number().min(0).optional(),
     _end: z.coerce.number().min(0).optional(),
     _limit: z.coerce.number().min(1).optional(),
+    _cursor: z.string().optional(),
+    _after: z.string().optional(),
+    _before: z.string().optional(),
     _sort: SortSchema,
-    _embed: EmbedSchema,
+    _embed: ListSchema,
+    _count: ListSchema,
+    _fields: ListSchema,
+    _where: WhereSchema,
+}).passthrough();
+
+const ItemParamsSchema = z.object({
+    _fields: ListSchema,
+    _embed: ListSchema,
+    _dependent: ListSchema,
 }).passthrough(); // Allow additional properties for filters
 
+/** Parameters scoped to an embedded collection, e.g. `comments._sort=-createdAt` */
+export interface ScopedParams {
+    filters: Record<string, any>;
+    sort?: Array<{
+        column: string;
+        order: 'asc' | 'desc';
+    }>;
+    /** Maximum number of embedded records per parent */
+    limit?: number;
+    /** Unsupported `_`-prefixed parameters, reported in strict mode */
+    unknownParams: string[];
+}
+
 export interface ParsedQueryParams {
     pagination: {
         page: number;
@@ -44,19 +166,48 @@ export interface ParsedQueryParams {
         start?: number;
         end?: number;
         limit?: number;
+        /** Keyset pagination, enabled by `_cursor`, `_after` or `_before` */
+        cursor?: {
+            direction: 'after' | 'before';
+            /** Opaque cursor token, absent for the first page */
+            token?: string;
+            /** Query parameter the token came from, for error reporting */
+            parameter: string;
+        };
     };
     sort?: Array<{
         column: string;
         order: 'asc' | 'desc';
     }>;
     filters: Record<string, any>;
+    where?: WhereNode;
     embed?: string[];
+    /** Relations whose records are counted with `_count` */
+    count?: string[];
+    fields?: string[];
+    /** Scoped parameters by embed or count path */
+    scoped?: Record<string, ScopedParams>;
+}
+
+export interface ParsedItemParams {
+    fields?: string[];
+    embed?: string[];
+    scoped?: Record<string, ScopedParams>;
+    /** `has_many` relation paths to delete along with the record (`_dependent=comments`) */
+    dependent?: string[];
 }
 
 export class QueryParser {
-    private static readonly EXCLUDE_PARAMS = ['_page', '_per_page', '_sort', '_start', '_end', '_limit', '_embed'];
+    private static readonly EXCLUDE_PARAMS = [
+        '_page', '_per_page', '_sort', '_start', '_end', '_limit',
+        '_cursor', '_after', '_before', '_embed', '_count', '_fields', '_where', '_dependent'
+    ];
 
-    static parseQueryParams(req: Request): ParsedQueryParams {
+    /**
+     * Parses list query parameters. In strict mode invalid parameters are
+     * reported as a QueryValidationError instead of falling back to lenient parsing.
+     */
+    static parseQueryParams(req: Request, options: { strict?: boolean; logger?: Logger } = {}): ParsedQueryParams {
         try {
             // Parse and validate using Zod
             const parsed = QueryParamsSchema.parse(req.query);
@@ -68,6 +219,7 @@ export class QueryParser {
                     filters[key] = value;
                 }
             }
+            const scoped = this.extractScopedParams(filters, [...(parsed._embed || []), ...(parsed._count || [])], options.strict);
 
             return {
                 pagination: {
@@ -76,35 +228,152 @@ export class QueryParser {
                     start: parsed._start,
                     end: parsed._end,
                     limit: parsed._limit,
+                    cursor: this.parseCursor(parsed),
                 },
                 sort: parsed._sort,
                 filters,
+                where: parsed._where,
                 embed: parsed._embed,
+                count: parsed._count,
+                fields: parsed._fields,
+                scoped,
             };
         } catch (error) {
+            if (error instanceof QueryValidationError) {
+                throw error;
+            }
+            if (options.strict && error instanceof z.ZodError) {
+                throw this.toValidationError(error);
+            }
+
             // Fallback to basic parsing if validation fails
-            console.warn('Query validation failed, using fallback parsing:', error);
+            (options.logger ?? defaultLogger).warn({ error }, 'Query validation failed, using fallback parsing');
             return this.fallbackParse(req);
         }
     }
 
+    /**
+     * Parses the query parameters accepted by single-record endpoints (reads and writes).
+     */
+    static parseItemParams(req: Request): ParsedItemParams {
+        const parsed = ItemParamsSchema.parse(req.query);
+
+        return {
+            fields: parsed._fields,
+            embed: parsed._embed,
+            scoped: this.extractScopedParams(this.parseFilters(req.query), parsed._embed),
+            dependent: parsed._dependent,
+        };
+    }
+
     private static fallbackParse(req: Request): ParsedQueryParams {
         const query = req.query;
+        const filters = this.parseFilters(query);
+        const embed = this.parseList(query._embed);
+        const countKeys = this.parseList(query._count);
+        const scoped = this.extractScopedParams(filters, [...(embed || []), ...(countKeys || [])]);
 
         return {
             pagination: {
                 page: Math.max(parseInt(query._page as string) || 1, 1),
-                perPage: Math.min(Math.max(parseInt(query._per_page as string) || 10, 1), 100),
+                perPage: Math.min(Math.max(parseInt(query._per_page as string) || 10, 1), MAX_PER_PAGE),
                 start: isNaN(parseInt(query._start as string)) ? undefined : Math.max(parseInt(query._start as string), 0),
                 end: isNaN(parseInt(query._end as string)) ? undefined : Math.max(parseInt(query._end as string), 0),
                 limit: isNaN(parseInt(query._limit as string)) ? undefined : Math.max(parseInt(query._limit as string), 1),
+                cursor: this.parseCursor(query),
             },
             sort: this.parseSort(query._sort),
-            filters: this.parseFilters(query),
-            embed: this.parseEmbed(query._embed),
+            filters,
+            // Condition trees are never parsed leniently: an invalid `_where` must not widen the result set
+            where: this.parseWhere(query._where),
+            embed,
+            count: countKeys,
+            fields: this.parseList(query._fields),
+            scoped,
         };
     }
 
+    private static parseWhere(value: unknown): WhereNode | undefined {
+        const result = WhereSchema.safeParse(value);
+        if (!result.success) {
+            throw this.toValidationError(result.error, ['_where']);
+        }
+        return result.data;
+    }
+
+    private static toValidationError(error: z.ZodError, path: string[] = []): QueryValidationError {
+        return new QueryValidationError(error.issues.map(issue => ({
+            parameter: [...path, ...issue.path].join('.') || 'query',
+            message: issue.message
+        })));
+    }
+
+    private static parseCursor(query: Record<string, any>): ParsedQueryParams['pagination']['cursor'] {
+        if (typeof query._before === 'string') {
+            return { direction: 'before', token: query._before || undefined, parameter: '_before' };
+        }
+
+        if (typeof query._after === 'string') {
+            return { direction: 'after', token: query._after || undefined, parameter: '_after' };
+        }
+
+        if (typeof query._cursor === 'string') {
+            // `_cursor` without a value starts cursor mode on the first page
+            return { direction: 'after', token: query._cursor || undefined, parameter: '_cursor' };
+        }
+
+        return undefined;
+    }
+
+    /**
+     * Moves parameters prefixed with an embed or count path (`comments._sort`, `comments.approved`)
+     * out of the root filters. The path is everything before the last dot, so
+     * `comments.user.fullName` is scoped to `comments.user`.
+     */
+    private static extractScopedParams(
+        filters: Record<string, any>,
+        paths: string[] | undefined,
+        strict = false
+    ): Record<string, ScopedParams> | undefined {
+        if (!paths || paths.length === 0) return undefined;
+
+        const embeddedPaths = new Set(paths.flatMap(embedKey =>
+            embedKey.split('.').map((_, index, segments) => segments.slice(0, index + 1).join('.'))
+        ));
+        const scoped: Record<string, ScopedParams> = {};
+
+        for (const key of Object.keys(filters)) {
+            const separatorIndex = key.lastIndexOf('.');
+            const path = key.slice(0, separatorIndex);
+            if (separatorIndex === -1 || !embeddedPaths.has(path)) continue;
+
+            // Existence filters apply to the root list
+            const param = key.slice(separatorIndex + 1);
+            if (param === '_exists') continue;
+
+            const value = filters[key];
+            const scope = scoped[path] ??= { filters: {}, unknownParams: [] };
+            delete filters[key];
+
+            if (param === '_sort') {
+                scope.sort = this.parseSort(value);
+            } else if (param === '_limit') {
+                const limit = z.coerce.number().int().min(1).safeParse(value);
+                if (limit.success) {
+                    scope.limit = limit.data;
+                } else if (strict) {
+                    throw new QueryValidationError([{ parameter: key, message: 'expected a positive integer' }]);
+                }
+            } else if (param.startsWith('_')) {
+                scope.unknownParams.push(param);
+            } else {
+                scope.filters[param] = value;
+            }
+        }
+
+        return Object.keys(scoped).length > 0 ? scoped : undefined;
+    }
+
     private static parseSort(sortParam: any): Array<{ column: string; order: 'asc' | 'desc' }> | undefined {
         if (typeof sortParam !== 'string') return undefined;
 
@@ -141,15 +410,15 @@ export class QueryParser {
         return filters;
     }
 
-    private static parseEmbed(embedParam: any): string[] | undefined {
-        if (!embedParam) return undefined;
+    private static parseList(listParam: any): string[] | undefined {
+        if (!listParam) return undefined;
 
-        if (typeof embedParam === 'string') {
-            return embedParam.split(',').map(item => item.trim()).filter(Boolean);
+        if (typeof listParam === 'string') {
+            return listParam.split(',').map(item => item.trim()).filter(Boolean);
         }
 
-        if (Array.isArray(embedParam)) {
-            return embedParam.map(item => String(item).trim()).filter(Boolean);
+        if (Array.isArray(listParam)) {
+            return listParam.map(item => String(item).trim()).filter(Boolean);
         }
 
         return undefined;
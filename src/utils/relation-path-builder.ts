@@ -0,0 +1,242 @@
+import { and, eq, exists, getTableColumns, not, SQL, sql } from 'drizzle-orm';
+import { alias } from 'drizzle-orm/pg-core';
+
+import { getReadableColumns } from './column-rules';
+import { QueryValidationError, QueryValidationIssue } from './error-handler';
+import { FilterBuilder } from './filter-builder';
+import { RelationMetadata, resolveParentKey, TableMetadata } from './schema-inspector';
+
+type DrizzleDb = any;
+
+const EXISTS_PARAM = '_exists';
+const BOOLEAN_VALUES: Record<string, boolean> = { true: true, false: false, 1: true, 0: false };
+
+/** A table joined along a relation path; the condition links it to the previous table */
+export interface RelationJoin {
+    /** Alias of the joined table, unique per relation path */
+    name: string;
+    table: any;
+    on: SQL;
+}
+
+interface ResolvedPath {
+    joins: RelationJoin[];
+    /** Aliased table at the end of the path */
+    target: any;
+    targetMetadata: TableMetadata;
+}
+
+/**
+ * Resolves filter and sort keys that reference a related table through a relation path,
+ * such as `user.fullName_like=Alice` or `_sort=post.user.fullName`.
+ *
+ * Paths follow `belongs_to` relations. Filters become correlated `EXISTS` subqueries, so they
+ * never duplicate rows or affect counts; sorting adds `LEFT JOIN`s along the path.
+ * `<path>._exists=true|false` matches rows with or without related records, and its last
+ * segment may be any relation (`comments._exists=true`).
+ */
+export class RelationPathBuilder {
+    constructor(
+        private db: DrizzleDb,
+        private columns: Record<string, any>,
+        private schema: Record<string, any>,
+        private tablesMetadata: Map<string, TableMetadata>,
+        private tableName: string
+    ) { }
+
+    static isRelationKey(key: string): boolean {
+        return key.includes('.');
+    }
+
+    /**
+     * Builds one condition per relation path. Keys that do not resolve are ignored;
+     * values that cannot be coerced are reported in a single QueryValidationError.
+     */
+    buildWhereConditions(filters: Record<string, any>): SQL[] {
+        const conditions: SQL[] = [];
+        const issues: QueryValidationIssue[] = [];
+
+        for (const [path, { [EXISTS_PARAM]: existsValue, ...pathFilters }] of this.groupByPath(filters)) {
+            try {
+                if (existsValue !== undefined) {
+                    const condition = this.buildExistsCondition(path, existsValue);
+                    if (condition) conditions.push(condition);
+                }
+
+                const condition = this.buildFilterCondition(path, pathFilters);
+                if (condition) conditions.push(condition);
+            } catch (error) {
+                if (!(error instanceof QueryValidationError)) throw error;
+                issues.push(...error.issues);
+            }
+        }
+
+        if (issues.length > 0) {
+            throw new QueryValidationError(issues);
+        }
+
+        return conditions;
+    }
+
+    /**
+     * Lists relation filter keys whose path or column does not resolve.
+     */
+    findUnknownFilters(filters: Record<string, any>): QueryValidationIssue[] {
+        const issues: QueryValidationIssue[] = [];
+
+        for (const [path, { [EXISTS_PARAM]: existsValue, ...pathFilters }] of this.groupByPath(filters)) {
+            if (existsValue !== undefined && !this.resolvePath(path.split('.'), true)) {
+                issues.push({ parameter: `${path}.${EXISTS_PARAM}`, message: `unknown relation '${path}'` });
+            }
+
+            const filterKeys = Object.keys(pathFilters);
+            if (filterKeys.length === 0) continue;
+
+            const pathIssue = this.findPathIssue(path);
+            if (pathIssue) {
+                filterKeys.forEach(key => issues.push({ parameter: `${path}.${key}`, message: pathIssue }));
+                continue;
+            }
+
+            const { target, targetMetadata } = this.resolvePath(path.split('.'))!;
+            new FilterBuilder(getReadableColumns(getTableColumns(target), targetMetadata), targetMetadata.columns)
+                .findUnknownFilters(pathFilters)
+                .forEach(issue => issues.push({ ...issue, parameter: `${path}.${issue.parameter}` }));
+        }
+
+        return issues;
+    }
+
+    /**
+     * Resolves a dotted sort field to the related column and the joins it needs,
+     * or returns undefined when the path or column does not resolve.
+     */
+    resolveSortField(field: string): { column: any; joins: RelationJoin[] } | undefined {
+        const segments = field.split('.');
+        const columnName = segments.pop()!;
+        const resolved = this.resolvePath(segments);
+        const column = resolved && getReadableColumns(getTableColumns(resolved.target), resolved.targetMetadata)[columnName];
+
+        return column ? { column, joins: resolved.joins } : undefined;
+    }
+
+    private buildFilterCondition(path: string, filters: Record<string, any>): SQL | undefined {
+        if (Object.keys(filters).length === 0) return undefined;
+
+        const resolved = this.resolvePath(path.split('.'));
+        if (!resolved) return undefined;
+
+        const filterBuilder = new FilterBuilder(
+            getReadableColumns(getTableColumns(resolved.target), resolved.targetMetadata),
+            resolved.targetMetadata.columns
+        );
+        const conditions = filterBuilder.buildWhereConditions(filters, `${path}.`);
+        if (conditions.length === 0) return undefined;
+
+        return exists(this.buildSubquery(resolved.joins, conditions));
+    }
+
+    private buildExistsCondition(path: string, value: unknown): SQL | undefined {
+        const raw = String(value).trim().toLowerCase();
+        if (!(raw in BOOLEAN_VALUES)) {
+            throw new QueryValidationError([{ parameter: `${path}.${EXISTS_PARAM}`, message: 'expected true or false' }]);
+        }
+
+        const resolved = this.resolvePath(path.split('.'), true);
+        if (!resolved) return undefined;
+
+        const condition = exists(this.buildSubquery(resolved.joins));
+        return BOOLEAN_VALUES[raw] ? condition : not(condition);
+    }
+
+    /**
+     * Selects from the first table of the path, correlated with the root row,
+     * and inner joins the rest of the path.
+     */
+    private buildSubquery([first, ...rest]: RelationJoin[], conditions: SQL[] = []) {
+        const subquery = this.db.select({ one: sql`1` }).from(first.table).$dynamic();
+        rest.forEach(join => subquery.innerJoin(join.table, join.on));
+
+        return subquery.where(and(first.on, ...conditions));
+    }
+
+    private findPathIssue(path: string): string | undefined {
+        if (this.resolvePath(path.split('.'))) return undefined;
+
+        return this.resolvePath(path.split('.'), true)
+            ? `'${path}' is not a belongs_to relation path`
+            : `unknown relation '${path}'`;
+    }
+
+    /**
+     * Walks the path from the root table. Every segment must be a `belongs_to` relation,
+     * except the last one when `allowAnyLast` is set.
+     */
+    private resolvePath(segments: string[], allowAnyLast = false): ResolvedPath | undefined {
+        const joins: RelationJoin[] = [];
+        let current = { table: this.columns, metadata: this.tablesMetadata.get(this.tableName) };
+
+        for (const [index, segment] of segments.entries()) {
+            const relation = current.metadata?.relations.find(candidate => candidate.name === segment);
+            const relatedMetadata = relation && this.tablesMetadata.get(relation.relatedTable);
+            const relatedTable = relation && this.schema[relation.relatedTable];
+            if (!relation || !relatedMetadata || !relatedTable) return undefined;
+
+            const isLast = index === segments.length - 1;
+            if (relation.type !== 'belongs_to' && !(isLast && allowAnyLast)) return undefined;
+
+            const name = `rel_${segments.slice(0, index + 1).join('__')}`;
+            const target = alias(relatedTable, name);
+            const linked = this.linkRelation(current.table, current.metadata!, relation, target, name);
+            if (!linked) return undefined;
+
+            joins.push(...linked);
+            current = { table: target, metadata: relatedMetadata };
+        }
+
+        if (joins.length === 0) return undefined;
+
+        return { joins, target: current.table, targetMetadata: current.metadata! };
+    }
+
+    private linkRelation(
+        parent: any,
+        parentMetadata: TableMetadata,
+        relation: RelationMetadata,
+        target: any,
+        name: string
+    ): RelationJoin[] | undefined {
+        if (relation.type === 'belongs_to') {
+            return [{ name, table: target, on: eq(parent[relation.foreignKey], target[relation.relatedColumn]) }];
+        }
+
+        const parentKey = parent[resolveParentKey(relation, parentMetadata)];
+
+        if (relation.type === 'many_to_many') {
+            const junctionTable = relation.through && this.schema[relation.through.table];
+            if (!junctionTable) return undefined;
+
+            const junction = alias(junctionTable, `${name}__junction`);
+            return [
+                { name: `${name}__junction`, table: junction, on: eq(junction[relation.foreignKey], parentKey) },
+                { name, table: target, on: eq(target[relation.through!.targetColumn], junction[relation.through!.targetKey]) }
+            ];
+        }
+
+        return [{ name, table: target, on: eq(target[relation.foreignKey], parentKey) }];
+    }
+
+    private groupByPath(filters: Record<string, any>): Map<string, Record<string, any>> {
+        const groups = new Map<string, Record<string, any>>();
+
+        for (const [key, value] of Object.entries(filters)) {
+            const separatorIndex = key.lastIndexOf('.');
+            if (separatorIndex === -1) continue;
+
+            const path = key.slice(0, separatorIndex);
+            groups.set(path, { ...groups.get(path), [key.slice(separatorIndex + 1)]: value });
+        }
+
+        return groups;
+    }
+}
@@ -1,8 +1,10 @@
+import { relations } from 'drizzle-orm';
+import { AnyPgColumn, integer, pgSchema, pgTable, primaryKey, serial, text, timestamp, unique, uniqueIndex } from 'drizzle-orm/pg-core';
 import { describe, expect,it } from 'vitest';
 
 import * as schema from '@/db/schema';
 
-import { SchemaInspector } from './schema-inspector';
+import { SchemaInspector, TableMetadata } from './schema-inspector';
 
 describe('SchemaInspector', () => {
     it('should extract table metadata correctly', () => {
@@ -45,4 +47,224 @@ describe('SchemaInspector', () => {
         const idColumn = usersTable.columns.find(col => col.name === 'id');
         expect(idColumn?.isPrimaryKey).toBe(true);
     });
+
+    it('should extract views and keyless tables without a primary key', () => {
+        const tables = new SchemaInspector(schema).extractTables();
+
+        const postStats = tables.find(t => t.name === 'postStats');
+        expect(postStats).toMatchObject({ tableName: 'post_stats', kind: 'view', primaryKey: [], relations: [] });
+        expect(postStats?.columns).toEqual([
+            expect.objectContaining({ name: 'id', type: 'serial', isPrimaryKey: false }),
+            expect.objectContaining({ name: 'title', type: 'text' }),
+            expect.objectContaining({ name: 'userId', type: 'integer' }),
+            expect.objectContaining({ name: 'commentCount', type: 'unknown', nullable: true })
+        ]);
+
+        expect(tables.find(t => t.name === 'userPostCounts')?.kind).toBe('materialized_view');
+        expect(tables.find(t => t.name === 'auditLog')).toMatchObject({ kind: 'table', primaryKey: [] });
+    });
+
+    it('should read table-level composite primary keys', () => {
+        const postFollowers = pgTable('post_followers', {
+            postId: integer('post_id').notNull().references(() => schema.posts.id),
+            userId: integer('user_id').notNull().references(() => schema.users.id)
+        }, (t) => [primaryKey({ columns: [t.userId, t.postId] })]);
+        const inspector = new SchemaInspector({ users: schema.users, posts: schema.posts, postFollowers });
+
+        const followersTable = inspector.extractTables().find(t => t.name === 'postFollowers');
+        expect(followersTable?.primaryKey).toEqual(['userId', 'postId']);
+        expect(followersTable?.columns.every(col => col.isPrimaryKey)).toBe(true);
+
+        // A key made of both foreign keys is still a junction table
+        expect(inspector.extractTables().find(t => t.name === 'posts')?.relations).toContainEqual(
+            expect.objectContaining({ type: 'many_to_many', relatedTable: 'users' })
+        );
+    });
+
+    it('should mark columns that are unique on their own', () => {
+        const articles = pgTable('articles', {
+            id: serial('id').primaryKey(),
+            slug: text('slug').unique(),
+            isbn: text('isbn'),
+            code: text('code'),
+            locale: text('locale'),
+            title: text('title')
+        }, (t) => [
+            unique().on(t.isbn),
+            uniqueIndex('articles_code_idx').on(t.code),
+            unique().on(t.locale, t.title)
+        ]);
+
+        const [articlesTable] = new SchemaInspector({ articles }).extractTables();
+        const uniqueColumns = articlesTable.columns.filter(col => col.isUnique).map(col => col.name);
+
+        expect(uniqueColumns).toEqual(['slug', 'isbn', 'code']);
+    });
+
+    it('should detect junction tables as many_to_many relations', () => {
+        const inspector = new SchemaInspector(schema);
+        const tables = inspector.extractTables();
+
+        const postsTable = tables.find(t => t.name === 'posts');
+        expect(postsTable?.relations).toContainEqual({
+            name: 'tags',
+            type: 'many_to_many',
+            relatedTable: 'tags',
+            foreignKey: 'postId',
+            relatedColumn: 'id',
+            through: { table: 'postTags', targetKey: 'tagId', targetColumn: 'id' }
+        });
+
+        const tagsTable = tables.find(t => t.name === 'tags');
+        expect(tagsTable?.relations).toContainEqual(expect.objectContaining({
+            type: 'many_to_many',
+            relatedTable: 'posts',
+            foreignKey: 'tagId'
+        }));
+    });
+
+    it('should only treat tables with extra columns as junctions when declared', () => {
+        const postLikes = pgTable('post_likes', {
+            id: serial('id').primaryKey(),
+            postId: integer('post_id').references(() => schema.posts.id),
+            userId: integer('user_id').references(() => schema.users.id),
+            createdAt: timestamp('created_at').defaultNow()
+        });
+        const extendedSchema = { users: schema.users, posts: schema.posts, postLikes };
+
+        const findManyToMany = (inspector: SchemaInspector) => inspector.extractTables()
+            .find(t => t.name === 'users')?.relations
+            .find(relation => relation.type === 'many_to_many');
+
+        expect(findManyToMany(new SchemaInspector(extendedSchema))).toBeUndefined();
+
+        // `posts` is already the has_many relation, so the junction name is used as prefix
+        expect(findManyToMany(new SchemaInspector(extendedSchema, { junctionTables: ['postLikes'] }))).toEqual(
+            expect.objectContaining({ name: 'postLikesPosts', relatedTable: 'posts' })
+        );
+    });
+
+    describe('naming strategies', () => {
+        const billing = pgSchema('billing');
+        const accounts = pgTable('user_accounts', { id: serial('id').primaryKey() });
+        const invoices = pgTable('invoices', {
+            id: serial('id').primaryKey(),
+            accountId: integer('account_id').references(() => accounts.id)
+        });
+        const billingInvoices = billing.table('invoices', {
+            id: serial('id').primaryKey(),
+            accountId: integer('account_id').references(() => accounts.id)
+        });
+        const namingSchema = { accounts, invoices, billingInvoices };
+
+        const describeTables = (inspector: SchemaInspector) => inspector.extractTables().map(table => ({
+            name: table.name,
+            resourceName: table.resourceName,
+            relations: table.relations.map(relation => relation.name)
+        }));
+
+        it('should keep export names by default and qualify pgSchema tables', () => {
+            expect(describeTables(new SchemaInspector(namingSchema))).toEqual([
+                { name: 'accounts', resourceName: 'accounts', relations: ['invoices', 'billingInvoices'] },
+                { name: 'invoices', resourceName: 'invoices', relations: ['account'] },
+                { name: 'billingInvoices', resourceName: 'billing.billingInvoices', relations: ['account'] }
+            ]);
+        });
+
+        it('should convert SQL table names and prefix derived relation names with the schema', () => {
+            expect(describeTables(new SchemaInspector(namingSchema, { namingStrategy: 'kebab' }))).toEqual([
+                { name: 'accounts', resourceName: 'user-accounts', relations: ['invoices', 'billing-invoices'] },
+                { name: 'invoices', resourceName: 'invoices', relations: ['account'] },
+                { name: 'billingInvoices', resourceName: 'billing.invoices', relations: ['account'] }
+            ]);
+            expect(new SchemaInspector(namingSchema, { namingStrategy: 'camel' }).extractTables()[0].resourceName)
+                .toBe('userAccounts');
+        });
+    });
+
+    describe('relation discovery', () => {
+        const accounts = pgTable('accounts', {
+            id: serial('id').primaryKey(),
+            handle: text('handle').notNull().unique()
+        });
+        const articles = pgTable('articles', {
+            id: serial('id').primaryKey(),
+            title: text('title').notNull(),
+            authorId: integer('author_id').references(() => accounts.id),
+            editorHandle: text('editor_handle').references(() => accounts.handle)
+        });
+        const categories = pgTable('categories', {
+            id: serial('id').primaryKey(),
+            parentId: integer('parent_id').references((): AnyPgColumn => categories.id)
+        });
+
+        const findRelations = (tables: TableMetadata[], name: string) =>
+            tables.find(table => table.name === name)?.relations || [];
+
+        it('should read foreign keys instead of guessing from column names', () => {
+            const tables = new SchemaInspector({ accounts, articles }).extractTables();
+
+            expect(findRelations(tables, 'articles')).toEqual([
+                { name: 'author', type: 'belongs_to', relatedTable: 'accounts', foreignKey: 'authorId', relatedColumn: 'id' },
+                { name: 'accounts', type: 'belongs_to', relatedTable: 'accounts', foreignKey: 'editorHandle', relatedColumn: 'handle' }
+            ]);
+        });
+
+        it('should disambiguate has_many relations from the same table', () => {
+            const tables = new SchemaInspector({ accounts, articles }).extractTables();
+
+            expect(findRelations(tables, 'accounts').map(relation => relation.name)).toEqual([
+                'authorArticles',
+                'editorHandleArticles'
+            ]);
+        });
+
+        it('should resolve self-references', () => {
+            const tables = new SchemaInspector({ categories }).extractTables();
+
+            expect(findRelations(tables, 'categories')).toEqual([
+                { name: 'parent', type: 'belongs_to', relatedTable: 'categories', foreignKey: 'parentId', relatedColumn: 'id' },
+                { name: 'categories', type: 'has_many', relatedTable: 'categories', foreignKey: 'parentId', relatedColumn: 'id' }
+            ]);
+        });
+
+        it('should use relation names declared with relations()', () => {
+            const profiles = pgTable('profiles', {
+                id: serial('id').primaryKey(),
+                accountId: integer('account_id').references(() => accounts.id)
+            });
+            const accountsRelations = relations(accounts, ({ many, one }) => ({
+                writtenArticles: many(articles, { relationName: 'author' }),
+                profile: one(profiles)
+            }));
+            const articlesRelations = relations(articles, ({ one }) => ({
+                writer: one(accounts, { fields: [articles.authorId], references: [accounts.id], relationName: 'author' })
+            }));
+            const profilesRelations = relations(profiles, ({ one }) => ({
+                account: one(accounts, { fields: [profiles.accountId], references: [accounts.id] })
+            }));
+
+            const tables = new SchemaInspector({
+                accounts, articles, profiles, accountsRelations, articlesRelations, profilesRelations
+            }).extractTables();
+
+            expect(findRelations(tables, 'articles')).toEqual([
+                { name: 'writer', type: 'belongs_to', relatedTable: 'accounts', foreignKey: 'authorId', relatedColumn: 'id' }
+            ]);
+            expect(findRelations(tables, 'accounts')).toEqual([
+                { name: 'writtenArticles', type: 'has_many', relatedTable: 'articles', foreignKey: 'authorId', relatedColumn: 'id' },
+                { name: 'profile', type: 'has_one', relatedTable: 'profiles', foreignKey: 'accountId', relatedColumn: 'id' }
+            ]);
+        });
+
+        it('should throw for relations() that cannot be resolved', () => {
+            // many() needs a matching one() with fields on the other side
+            const accountsRelations = relations(accounts, ({ many }) => ({
+                drafts: many(articles)
+            }));
+
+            expect(() => new SchemaInspector({ accounts, articles, accountsRelations }).extractTables())
+                .toThrow('Relation \'drafts\' of table \'accounts\' cannot be resolved');
+        });
+    });
 });
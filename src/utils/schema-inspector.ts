@@ -1,5 +1,28 @@
-import { getTableColumns } from 'drizzle-orm';
-import type { PgColumn, PgTable } from 'drizzle-orm/pg-core';
+import {
+    Column,
+    createTableRelationsHelpers,
+    extractTablesRelationalConfig,
+    getTableColumns,
+    getViewSelectedFields,
+    is,
+    normalizeRelation,
+    One,
+    type Relation,
+    type TablesRelationalConfig
+} from 'drizzle-orm';
+import {
+    getMaterializedViewConfig,
+    getTableConfig,
+    getViewConfig,
+    type PgColumn,
+    PgMaterializedView,
+    type PgTable,
+    PgView
+} from 'drizzle-orm/pg-core';
+
+import type { ColumnRule } from './column-rules';
+import { defaultLogger, Logger } from './logger';
+import { applyNamingStrategy, NamingStrategy } from './naming';
 
 // Type for a Drizzle schema object
 type DrizzleSchema = Record<string, PgTable | unknown>;
@@ -10,41 +33,99 @@ type DrizzleColumn = PgColumn<any, any, any>;
 export interface ColumnMetadata {
     name: string;
     type: string;
+    /** JavaScript representation Drizzle uses for values (e.g. 'number', 'date', 'string') */
+    dataType: string;
+    enumValues?: string[];
     nullable: boolean;
     isPrimaryKey: boolean;
+    /** Unique on its own, through `.unique()`, a `unique()` constraint or a unique index */
+    isUnique: boolean;
     references?: {
         table: string;
         column: string;
     };
+    /** Set by the adapter from the `columns` table option, see `ColumnRule` */
+    rule?: ColumnRule;
 }
 
 export interface RelationMetadata {
-    type: 'belongs_to' | 'has_many';
+    /** Relation name, used as the embed key */
+    name: string;
+    type: 'belongs_to' | 'has_one' | 'has_many' | 'many_to_many';
     relatedTable: string;
+    /** Column holding the reference (on the related or junction table for has_one / has_many / many_to_many) */
     foreignKey: string;
+    /** Referenced column (on this table for has_one / has_many / many_to_many) */
     relatedColumn: string;
+    /** Junction table linking both sides of a many_to_many relation */
+    through?: {
+        table: string;
+        /** Junction column referencing the related table */
+        targetKey: string;
+        /** Column of the related table referenced by targetKey */
+        targetColumn: string;
+    };
 }
 
+/**
+ * Column of the parent table that the children of a has_one, has_many or many_to_many relation
+ * reference: the parent's primary key, unless the foreign key targets another column.
+ */
+export const resolveParentKey = (relation: RelationMetadata, parentMetadata: TableMetadata): string =>
+    relation.relatedColumn || parentMetadata.primaryKey[0] || 'id';
+
 export interface TableMetadata {
     name: string;
     tableName: string;
+    /** Postgres schema of tables declared with `pgSchema()`; undefined for the default schema */
+    schema?: string;
+    /**
+     * Name exposed in routes and hook contexts, following the naming strategy.
+     * Tables from a `pgSchema()` are qualified with it: `billing.invoices`.
+     */
+    resourceName: string;
+    /** Views, materialized views and tables without a primary key are exposed read-only */
+    kind: 'table' | 'view' | 'materialized_view';
     columns: ColumnMetadata[];
     primaryKey: string[];
     relations: RelationMetadata[];
 }
 
+export interface SchemaInspectorOptions {
+    /**
+     * Tables to treat as junction tables even when they have columns besides
+     * their two foreign keys and primary key.
+     */
+    junctionTables?: string[];
+
+    /** Naming of resources and of relations derived from table names (default: 'exported') */
+    namingStrategy?: NamingStrategy;
+
+    /** Logger for schema warnings (default: the adapter's default logger) */
+    logger?: Logger;
+}
+
 export class SchemaInspector {
-    constructor(private schema: DrizzleSchema) { }
+    constructor(
+        private schema: DrizzleSchema,
+        private options: SchemaInspectorOptions = {}
+    ) { }
 
     extractTables(): TableMetadata[] {
-        const tables = Object.entries(this.schema)
-            .filter((entry): entry is [string, PgTable] => this.isTable(entry[1]))
-            .map(([name, table]) => this.extractTableMetadata(name, table));
+        const tableEntries = Object.entries(this.schema)
+            .filter((entry): entry is [string, PgTable] => this.isTable(entry[1]));
+        const viewEntries = Object.entries(this.schema)
+            .filter((entry): entry is [string, PgView | PgMaterializedView] => this.isView(entry[1]));
+        const tables = [
+            ...tableEntries.map(([name, table]) => this.extractTableMetadata(name, table)),
+            ...viewEntries.map(([name, view]) => this.extractViewMetadata(name, view))
+        ];
+        const declaredRelations = this.extractDeclaredRelations(tableEntries);
 
         // Build relations after all tables are extracted
         return tables.map(table => ({
             ...table,
-            relations: this.buildTableRelations(table, tables)
+            relations: this.buildTableRelations(table, tables, declaredRelations.get(table.name))
         }));
     }
 
@@ -65,33 +146,134 @@ export class SchemaInspector {
         return false;
     }
 
+    private isView(value: unknown): value is PgView | PgMaterializedView {
+        return is(value, PgView) || is(value, PgMaterializedView);
+    }
+
     private extractTableMetadata(name: string, table: PgTable): TableMetadata {
-        const columns = this.extractColumns(table);
-        const primaryKey = this.extractPrimaryKey(table, columns);
+        const declaredColumns = this.extractColumns(table);
+        const primaryKey = this.extractPrimaryKey(table, declaredColumns);
+        // Mark the columns of table-level composite keys as well
+        const columns = declaredColumns.map(column => ({ ...column, isPrimaryKey: primaryKey.includes(column.name) }));
         const tableAsRecord = table as unknown as Record<symbol, unknown>;
+        const tableName = (tableAsRecord[Symbol.for('drizzle:Name')] as string) || name;
+        const { schema } = getTableConfig(table);
 
         return {
             name,
-            tableName: (tableAsRecord[Symbol.for('drizzle:Name')] as string) || name,
+            tableName,
+            schema,
+            resourceName: this.getResourceName(name, tableName, schema),
+            kind: 'table',
             columns,
             primaryKey,
             relations: []
         };
     }
 
+    /**
+     * Views have no keys or constraints; their columns are the selected fields. Fields that
+     * are SQL expressions (`sql\`count(*)\`.as('total')`) have an unknown type.
+     */
+    private extractViewMetadata(name: string, view: PgView | PgMaterializedView): TableMetadata {
+        const isMaterialized = is(view, PgMaterializedView);
+        const config = isMaterialized ? getMaterializedViewConfig(view) : getViewConfig(view as PgView);
+
+        const columns = Object.entries(getViewSelectedFields(view)).map(([fieldName, field]): ColumnMetadata =>
+            is(field, Column)
+                ? { ...this.toColumnMetadata(fieldName, field as DrizzleColumn), isPrimaryKey: false, isUnique: false }
+                : { name: fieldName, type: 'unknown', dataType: 'unknown', nullable: true, isPrimaryKey: false, isUnique: false }
+        );
+
+        return {
+            name,
+            tableName: config.name,
+            schema: config.schema,
+            resourceName: this.getResourceName(name, config.name, config.schema),
+            kind: isMaterialized ? 'materialized_view' : 'view',
+            columns,
+            primaryKey: [],
+            relations: []
+        };
+    }
+
+    private get namingStrategy(): NamingStrategy {
+        return this.options.namingStrategy ?? 'exported';
+    }
+
+    private getResourceName(name: string, tableName: string, schema?: string): string {
+        const resourceName = this.namingStrategy === 'exported'
+            ? name
+            : applyNamingStrategy(tableName, this.namingStrategy);
+
+        return schema ? `${applyNamingStrategy(schema, this.namingStrategy)}.${resourceName}` : resourceName;
+    }
+
+    /**
+     * Name of a table inside derived relation names. Tables from a `pgSchema()` keep the schema
+     * as a prefix (`billingInvoices`), so they cannot clash with a same-named table of another schema.
+     */
+    private getRelationBaseName(table: TableMetadata): string {
+        return this.namingStrategy === 'exported'
+            ? table.name
+            : applyNamingStrategy([table.schema, table.tableName].filter(Boolean).join('_'), this.namingStrategy);
+    }
+
     private extractColumns(table: PgTable): ColumnMetadata[] {
         const drizzleColumns = getTableColumns(table);
+        const references = this.extractForeignKeys(table);
+        const uniqueColumns = this.extractUniqueColumns(table);
 
         return Object.entries(drizzleColumns).map(([columnName, col]: [string, DrizzleColumn]) => ({
-            name: columnName,
+            ...this.toColumnMetadata(columnName, col),
+            isUnique: uniqueColumns.has(col.name),
+            references: references.get(col)
+        }));
+    }
+
+    private toColumnMetadata(name: string, col: DrizzleColumn): ColumnMetadata {
+        return {
+            name,
             type: this.getColumnType(col),
+            dataType: col.dataType,
+            enumValues: col.enumValues?.length ? [...col.enumValues] : undefined,
             nullable: !col.notNull,
             isPrimaryKey: col.primary || false,
-            references: this.extractColumnReferences(col)
-        }));
+            isUnique: col.isUnique
+        };
+    }
+
+    /**
+     * Returns the SQL names of the columns that are unique on their own. Multi-column
+     * constraints and partial unique indexes do not make a single column unique.
+     */
+    private extractUniqueColumns(table: PgTable): Set<string> {
+        const { columns, uniqueConstraints, indexes } = getTableConfig(table);
+        const uniqueColumns = new Set(columns.filter(column => column.isUnique).map(column => column.name));
+
+        uniqueConstraints
+            .filter(constraint => constraint.columns.length === 1)
+            .forEach(constraint => uniqueColumns.add(constraint.columns[0].name));
+
+        indexes
+            .filter(index => index.config.unique && !index.config.where && index.config.columns.length === 1)
+            .forEach(index => {
+                const [column] = index.config.columns;
+                if (column && 'name' in column && column.name) uniqueColumns.add(column.name);
+            });
+
+        return uniqueColumns;
     }
 
     private extractPrimaryKey(table: PgTable, columns: ColumnMetadata[]): string[] {
+        // Composite keys are declared at table level with primaryKey({ columns: [...] }).
+        // Their columns are copies of the table's columns, so they are matched by SQL name.
+        const [compositeKey] = getTableConfig(table).primaryKeys;
+        if (compositeKey) {
+            const tableColumns = Object.entries(getTableColumns(table));
+            return compositeKey.columns.map(column => tableColumns.find(([, col]) => col.name === column.name)![0]);
+        }
+
         // Find columns marked as primary
         const primaryColumns = columns
             .filter(col => col.isPrimaryKey)
@@ -104,10 +286,12 @@ export class SchemaInspector {
             const tableName = (tableAsRecord[Symbol.for('drizzle:Name')] as string) || 'unknown';
 
             if (hasIdColumn) {
-                console.warn(`No explicit primary key found for table ${tableName}, assuming 'id' column`);
+                (this.options.logger ?? defaultLogger).warn({ table: tableName }, 'No explicit primary key found, assuming \'id\' column');
                 return ['id'];
             }
-            throw new Error(`No primary key found for table ${tableName}`);
+
+            // Keyless tables are exposed as read-only resources
+            return [];
         }
 
         return primaryColumns;
@@ -122,76 +306,205 @@ export class SchemaInspector {
         return col.dataType || 'unknown';
     }
 
-    private extractColumnReferences(col: DrizzleColumn): { table: string; column: string } | undefined {
-        // Simple approach: detect foreign keys by naming convention
-        // Check both camelCase (userId) and snake_case (user_id) patterns
-        const columnName = col.name;
-        if (!columnName) return undefined;
+    /**
+     * Reads the foreign keys declared with `.references()` or `foreignKey()`.
+     * Only single-column foreign keys to tables in the schema are supported.
+     */
+    private extractForeignKeys(table: PgTable): Map<Column, { table: string; column: string }> {
+        const references = new Map<Column, { table: string; column: string }>();
 
-        // Pattern 1: camelCase ending with 'Id' (e.g., userId -> user)
-        if (columnName.endsWith('Id')) {
-            const tableName = columnName.slice(0, -2).toLowerCase(); // Remove 'Id' and make lowercase
-            const possibleTableNames = [tableName, tableName + 's'];
+        for (const foreignKey of getTableConfig(table).foreignKeys) {
+            const { columns, foreignColumns, foreignTable } = foreignKey.reference();
+            if (columns.length !== 1) continue;
 
-            for (const possibleName of possibleTableNames) {
-                if (this.schema[possibleName]) {
-                    return {
-                        table: possibleName,
-                        column: 'id'
-                    };
-                }
+            const referencedTable = this.findTableName(foreignTable);
+            const referencedColumn = this.findColumnName(foreignTable, foreignColumns[0]);
+            if (referencedTable && referencedColumn) {
+                references.set(columns[0], { table: referencedTable, column: referencedColumn });
             }
         }
 
-        // Pattern 2: snake_case ending with '_id' (e.g., user_id -> user)
-        if (columnName.endsWith('_id')) {
-            const tableName = columnName.slice(0, -3).toLowerCase(); // Remove '_id' and make lowercase
-            const possibleTableNames = [tableName, tableName + 's'];
-
-            for (const possibleName of possibleTableNames) {
-                if (this.schema[possibleName]) {
-                    return {
-                        table: possibleName,
-                        column: 'id'
-                    };
-                }
-            }
+        return references;
+    }
+
+    /**
+     * Converts `relations()` objects exported in the schema into relation metadata,
+     * keyed by schema table name. Tables without declared relations are not included.
+     * Throws for relations the adapter cannot serve, so they fail at startup instead of being dropped.
+     */
+    private extractDeclaredRelations(tableEntries: Array<[string, PgTable]>): Map<string, RelationMetadata[]> {
+        const declared = new Map<string, RelationMetadata[]>();
+        const { tables, tableNamesMap } = extractTablesRelationalConfig(this.schema, createTableRelationsHelpers);
+
+        for (const [name, table] of tableEntries) {
+            const tableRelations = Object.entries(tables[name]?.relations || {});
+            if (tableRelations.length === 0) continue;
+
+            declared.set(name, tableRelations.map(([relationName, relation]) =>
+                this.convertDeclaredRelation(tables, tableNamesMap, name, table, relationName, relation)));
         }
 
-        return undefined;
+        return declared;
     }
 
-    private buildTableRelations(table: TableMetadata, allTables: TableMetadata[]): RelationMetadata[] {
-        const relations: RelationMetadata[] = [];
+    private convertDeclaredRelation(
+        tables: TablesRelationalConfig,
+        tableNamesMap: Record<string, string>,
+        tableName: string,
+        table: PgTable,
+        relationName: string,
+        relation: Relation
+    ): RelationMetadata {
+        const relatedTable = this.findTableName(relation.referencedTable);
+        let normalized: { fields: Column[]; references: Column[] };
 
-        // Add belongs_to relations for each foreign key column
-        table.columns.forEach(column => {
-            if (column.references) {
-                relations.push({
-                    type: 'belongs_to',
-                    relatedTable: column.references.table,
-                    foreignKey: column.name,
-                    relatedColumn: column.references.column
-                });
+        try {
+            normalized = normalizeRelation(tables, tableNamesMap, relation);
+        } catch (error: any) {
+            throw new Error(`Relation '${relationName}' of table '${tableName}' cannot be resolved: ${error.message}`);
+        }
+
+        if (!relatedTable || normalized.fields.length !== 1) {
+            throw new Error(`Relation '${relationName}' of table '${tableName}' is not supported: only single-column relations to schema tables are supported`);
+        }
+
+        // A one() relation with fields holds the foreign key; otherwise the related table does
+        if (is(relation, One) && relation.config) {
+            return {
+                name: relationName,
+                type: 'belongs_to',
+                relatedTable,
+                foreignKey: this.findColumnName(table, normalized.fields[0])!,
+                relatedColumn: this.findColumnName(relation.referencedTable, normalized.references[0])!
+            };
+        }
+
+        return {
+            name: relationName,
+            type: is(relation, One) ? 'has_one' : 'has_many',
+            relatedTable,
+            foreignKey: this.findColumnName(relation.referencedTable, normalized.references[0])!,
+            relatedColumn: this.findColumnName(table, normalized.fields[0])!
+        };
+    }
+
+    private findTableName(table: unknown): string | undefined {
+        return Object.keys(this.schema).find(name => this.schema[name] === table);
+    }
+
+    private findColumnName(table: any, column: Column): string | undefined {
+        return Object.entries(getTableColumns(table)).find(([, col]) => col === column)?.[0];
+    }
+
+    /**
+     * Relations declared with `relations()` take precedence. Tables without declared
+     * relations get belongs_to and has_many relations derived from foreign keys:
+     * `authorId -> users` becomes `author`, and `posts.authorId` becomes `posts` on users
+     * (or `authorPosts` when posts references users more than once).
+     */
+    private buildTableRelations(
+        table: TableMetadata,
+        allTables: TableMetadata[],
+        declaredRelations?: RelationMetadata[]
+    ): RelationMetadata[] {
+        const relations: RelationMetadata[] = declaredRelations ? [...declaredRelations] : [];
+        const addRelation = (relation: RelationMetadata) => {
+            if (!relations.some(existing => existing.name === relation.name)) {
+                relations.push(relation);
             }
-        });
+        };
+        const baseNameOf = (tableName: string) => {
+            const relatedTable = allTables.find(candidate => candidate.name === tableName);
+            return relatedTable ? this.getRelationBaseName(relatedTable) : tableName;
+        };
 
-        // Add has_many relations by looking at other tables that reference this table
-        allTables.forEach(otherTable => {
-            if (otherTable.name === table.name) return;
+        if (!declaredRelations) {
+            // Add belongs_to relations for each foreign key column
+            table.columns.forEach(column => {
+                if (column.references) {
+                    const name = stripIdSuffix(column.name);
+                    addRelation({
+                        name: name === column.name ? baseNameOf(column.references.table) : name,
+                        type: 'belongs_to',
+                        relatedTable: column.references.table,
+                        foreignKey: column.name,
+                        relatedColumn: column.references.column
+                    });
+                }
+            });
+
+            // Add has_many relations by looking at other tables that reference this table
+            allTables.forEach(otherTable => {
+                const foreignKeys = otherTable.columns.filter(column => column.references?.table === table.name);
 
-            otherTable.columns.forEach(column => {
-                if (column.references && column.references.table === table.name) {
-                    relations.push({
+                foreignKeys.forEach(column => {
+                    addRelation({
+                        name: foreignKeys.length > 1
+                            ? applyNamingStrategy(`${stripIdSuffix(column.name)}${capitalize(baseNameOf(otherTable.name))}`, this.namingStrategy)
+                            : baseNameOf(otherTable.name),
                         type: 'has_many',
                         relatedTable: otherTable.name,
                         foreignKey: column.name,
-                        relatedColumn: column.references.column
+                        relatedColumn: column.references!.column
                     });
-                }
+                });
+            });
+        }
+
+        // Add many_to_many relations through junction tables that reference this table
+        allTables.forEach(otherTable => {
+            const junctionKeys = this.getJunctionKeys(otherTable);
+            if (!junctionKeys) return;
+
+            junctionKeys.forEach((sourceKey, index) => {
+                const targetKey = junctionKeys[1 - index];
+                if (sourceKey.references!.table !== table.name) return;
+
+                // Fall back to a junction-prefixed name (`postLikesPosts`) when the target name is taken
+                const targetTable = targetKey.references!.table;
+                const targetName = baseNameOf(targetTable);
+                const isNameTaken = relations.some(relation => relation.name === targetName);
+
+                addRelation({
+                    name: isNameTaken
+                        ? applyNamingStrategy(`${baseNameOf(otherTable.name)}${capitalize(targetName)}`, this.namingStrategy)
+                        : targetName,
+                    type: 'many_to_many',
+                    relatedTable: targetTable,
+                    foreignKey: sourceKey.name,
+                    relatedColumn: sourceKey.references!.column,
+                    through: {
+                        table: otherTable.name,
+                        targetKey: targetKey.name,
+                        targetColumn: targetKey.references!.column
+                    }
+                });
             });
         });
 
         return relations;
     }
+
+    /**
+     * Returns the two foreign key columns of a junction table, or null for other tables.
+     * A junction table has exactly two foreign keys and otherwise only a trivial primary
+     * key (a single surrogate column, or the two foreign keys themselves), unless it is
+     * declared in `junctionTables`.
+     */
+    private getJunctionKeys(table: TableMetadata): [ColumnMetadata, ColumnMetadata] | null {
+        const foreignKeys = table.columns.filter(column => column.references);
+        if (foreignKeys.length !== 2) return null;
+
+        if (!this.options.junctionTables?.includes(table.name)) {
+            const otherColumns = table.columns.filter(column => !column.references);
+            const hasTrivialPrimaryKey = otherColumns.length <= 1 && otherColumns.every(column => column.isPrimaryKey);
+            if (!hasTrivialPrimaryKey) return null;
+        }
+
+        return [foreignKeys[0], foreignKeys[1]];
+    }
 }
+
+const stripIdSuffix = (columnName: string): string => columnName.replace(/(_id|Id)$/, '') || columnName;
+
+const capitalize = (value: string): string => value.charAt(0).toUpperCase() + value.slice(1);
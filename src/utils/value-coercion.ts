@@ -0,0 +1,135 @@
+import { ColumnMetadata } from './schema-inspector';
+
+const INTEGER_PATTERN = /^-?\d+$/;
+const DECIMAL_PATTERN = /^-?(\d+\.?\d*|\.\d+)$/;
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const TIMESTAMP_PATTERN = /^\d{4}-\d{2}-\d{2}([T ]\d{2}:\d{2}(:\d{2}(\.\d+)?)?)?(Z|[+-]\d{2}(:?\d{2})?)?$/i;
+// Exclusive upper bounds of the Postgres integer types; lower bounds are their negation
+const INTEGER_BOUNDS: Record<string, number> = { smallint: 2 ** 15, smallserial: 2 ** 15, integer: 2 ** 31, serial: 2 ** 31 };
+const BIGINT_BOUND = 2n ** 63n;
+const TEXT_TYPES = new Set(['text', 'varchar', 'character varying', 'char', 'character', 'citext']);
+const BOOLEAN_VALUES: Record<string, boolean> = { true: true, false: false, 1: true, 0: false };
+
+/**
+ * Thrown when a raw request value cannot be converted to the column type.
+ * Callers attach the parameter name when reporting it.
+ */
+export class CoercionError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'CoercionError';
+    }
+}
+
+const isScalar = (value: unknown): boolean =>
+    typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean';
+
+/** Base SQL type without modifiers such as varchar(255) or numeric(10, 2) */
+const getBaseType = (column: ColumnMetadata): string => column.type.toLowerCase().replace(/\(.*\)/, '').trim();
+
+/**
+ * Whether pattern operators (LIKE, regular expressions) apply to the column.
+ * Columns of unknown type, such as computed view fields, are given the benefit of the doubt.
+ */
+export function isTextColumn(column: ColumnMetadata): boolean {
+    const baseType = getBaseType(column);
+    return baseType === 'unknown' || TEXT_TYPES.has(baseType);
+}
+
+/**
+ * Converts a raw query-string value into the representation Drizzle expects
+ * for the given column, based on its SQL type from the SchemaInspector.
+ */
+export function coerceColumnValue(column: ColumnMetadata, value: unknown): unknown {
+    // The query parser turns `?name[key]=value` into an object, which must not reach SQL
+    if (!isScalar(value) && !(Array.isArray(value) && value.every(isScalar))) {
+        throw new CoercionError('expected a value or a list of values');
+    }
+
+    const raw = String(value).trim();
+
+    if (column.enumValues) {
+        if (!column.enumValues.includes(raw)) {
+            throw new CoercionError(`expected one of ${column.enumValues.join(', ')}`);
+        }
+        return raw;
+    }
+
+    const baseType = getBaseType(column);
+
+    switch (baseType) {
+        case 'smallint':
+        case 'integer':
+        case 'serial':
+        case 'smallserial':
+            if (!INTEGER_PATTERN.test(raw) || !Number.isSafeInteger(Number(raw))) {
+                throw new CoercionError('expected an integer');
+            }
+            if (Number(raw) < -INTEGER_BOUNDS[baseType] || Number(raw) >= INTEGER_BOUNDS[baseType]) {
+                throw new CoercionError('integer out of range');
+            }
+            return Number(raw);
+
+        case 'bigint':
+        case 'bigserial':
+            if (!INTEGER_PATTERN.test(raw)) {
+                throw new CoercionError('expected an integer');
+            }
+            if (BigInt(raw) < -BIGINT_BOUND || BigInt(raw) >= BIGINT_BOUND) {
+                throw new CoercionError('integer out of range');
+            }
+            if (column.dataType === 'bigint') {
+                return BigInt(raw);
+            }
+            // Number mode cannot represent every int64; rounding would address a different row
+            if (!Number.isSafeInteger(Number(raw))) {
+                throw new CoercionError('integer out of range');
+            }
+            return Number(raw);
+
+        case 'numeric':
+        case 'decimal':
+            if (!DECIMAL_PATTERN.test(raw)) {
+                throw new CoercionError('expected a number');
+            }
+            return column.dataType === 'number' ? Number(raw) : raw;
+
+        case 'real':
+        case 'double precision':
+            if (!DECIMAL_PATTERN.test(raw)) {
+                throw new CoercionError('expected a number');
+            }
+            return Number(raw);
+
+        case 'boolean':
+            if (!(raw.toLowerCase() in BOOLEAN_VALUES)) {
+                throw new CoercionError('expected true or false');
+            }
+            return BOOLEAN_VALUES[raw.toLowerCase()];
+
+        case 'uuid':
+            if (!UUID_PATTERN.test(raw)) {
+                throw new CoercionError('expected a UUID');
+            }
+            return raw;
+
+        case 'date':
+            if (!DATE_PATTERN.test(raw) || isNaN(Date.parse(raw))) {
+                throw new CoercionError('expected a date (YYYY-MM-DD)');
+            }
+            return column.dataType === 'date' ? new Date(raw) : raw;
+
+        case 'timestamp':
+        case 'timestamp with time zone':
+        case 'timestamp without time zone':
+            if (!TIMESTAMP_PATTERN.test(raw) || isNaN(Date.parse(raw))) {
+                throw new CoercionError('expected an ISO 8601 timestamp');
+            }
+            return column.dataType === 'date' ? new Date(raw) : raw;
+
+        default:
+            // Text-like and unknown types are passed through unchanged
+            return value;
+    }
+}